@@ -4,19 +4,10 @@ import { motion, AnimatePresence } from "framer-motion";
 import type { Variants } from "framer-motion";
 import { InputField } from './components/InputField/InputField';
 import { DataTable } from './components/DataTable/DataTable';
-import type { Column } from './components/DataTable/DataTable';
-
-type User = {
-  id: number;
-  name: string;
-  email: string;
-  age: number;
-  department: string;
-  active: boolean;
-  avatar?: string;
-  joinDate: string;
-  salary: number;
-};
+import type { CellChange, Column, RowKey } from './components/DataTable/DataTable';
+import { UserImport } from './UserImport';
+import { departments, validateAge, validateEmail, validateName, validateSalary, validateUserFields } from './users';
+import type { User } from './users';
 
 // Fixed Animation variants with proper typing
 const containerVariants: Variants = {
@@ -70,6 +61,8 @@ const buttonVariants: Variants = {
   tap: { scale: 0.95 }
 };
 
+const asText = (value: unknown) => (value == null ? '' : String(value));
+
 // Enhanced columns with better animations
 const columns: Column<User>[] = [
   {
@@ -77,6 +70,9 @@ const columns: Column<User>[] = [
     title: '',
     dataIndex: 'name',
     width: 60,
+    fixed: 'left',
+    // Only decorates the name
+    exportable: false,
     render: (name: string) => (
       <motion.div
         initial={{ opacity: 0, scale: 0.5, rotate: -180 }}
@@ -94,6 +90,13 @@ const columns: Column<User>[] = [
     title: 'Full Name', 
     dataIndex: 'name', 
     sortable: true,
+    sortType: 'locale',
+    fixed: 'left',
+    editable: true,
+    validate: (value) => validateName(asText(value)),
+    aggregate: 'count',
+    aggregateRender: (count) => `${count} users`,
+    searchValue: (user: User) => `${user.name} ${user.department}`,
     render: (name: string, record: User) => (
       <motion.div
         initial={{ x: -30, opacity: 0 }}
@@ -112,6 +115,8 @@ const columns: Column<User>[] = [
     title: 'Email Address', 
     dataIndex: 'email', 
     sortable: true,
+    editable: true,
+    validate: (value) => validateEmail(asText(value)),
     render: (email: string) => (
       <motion.span
         initial={{ opacity: 0 }}
@@ -135,6 +140,10 @@ const columns: Column<User>[] = [
     sortable: true,
     width: 80,
     align: 'center' as const,
+    editable: { type: 'number' },
+    validate: (value) => validateAge(asText(value)),
+    aggregate: 'avg',
+    aggregateRender: (average) => `Avg ${Math.round(Number(average))}`,
     render: (age: number) => (
       <motion.span
         initial={{ scale: 0.5, opacity: 0 }}
@@ -152,7 +161,12 @@ const columns: Column<User>[] = [
     title: 'Salary',
     dataIndex: 'salary',
     sortable: true,
+    filter: { type: 'number' },
     align: 'right' as const,
+    editable: true,
+    validate: (value) => validateSalary(asText(value)),
+    aggregate: 'avg',
+    aggregateRender: (average) => `Avg $${Math.round(Number(average)).toLocaleString()}`,
     render: (salary: number) => (
       <motion.span
         initial={{ scale: 0.5, opacity: 0 }}
@@ -170,6 +184,9 @@ const columns: Column<User>[] = [
     title: 'Join Date',
     dataIndex: 'joinDate',
     sortable: true,
+    sortType: 'date',
+    filter: { type: 'date' },
+    editable: true,
     render: (date: string) => (
       <motion.span
         initial={{ opacity: 0, y: 10 }}
@@ -189,8 +206,13 @@ const columns: Column<User>[] = [
     key: 'active',
     title: 'Status',
     dataIndex: 'active',
+    filter: { type: 'boolean', trueLabel: 'Active', falseLabel: 'Inactive' },
     width: 100,
     align: 'center' as const,
+    editable: true,
+    aggregate: (users) => users.filter(user => user.active).length,
+    aggregateRender: (count) => `${count} active`,
+    exportValue: (user) => (user.active ? 'Active' : 'Inactive'),
     render: (active: boolean) => (
       <motion.div
         initial={{ scale: 0.5, opacity: 0 }}
@@ -237,8 +259,6 @@ const initialUsers: User[] = [
   { id: 6, name: 'Frank Wilson', email: 'frank.wilson@company.com', age: 29, department: 'Engineering', active: true, joinDate: '2022-09-18', salary: 90000 },
 ];
 
-const departments = ['Engineering', 'Marketing', 'Design', 'Sales', 'HR', 'Finance', 'Operations'];
-
 function App() {
   // Form state
   const [name, setName] = useState('');
@@ -253,8 +273,12 @@ function App() {
 
   // Table state
   const [users, setUsers] = useState(initialUsers);
-  const [selectedUsers, setSelectedUsers] = useState<User[]>([]);
+  const [selectedKeys, setSelectedKeys] = useState<RowKey[]>([]);
+  // Looked up by key so edits made after selecting show up, in table data order
+  const selectedUsers = users.filter(user => selectedKeys.includes(user.id));
   const [tableLoading, setTableLoading] = useState(false);
+  const [groupByDepartment, setGroupByDepartment] = useState(false);
+  const [importing, setImporting] = useState(false);
 
   // Dark mode state
   const [darkMode, setDarkMode] = useState(true);
@@ -270,19 +294,7 @@ function App() {
 
   // Validation function
   const validateForm = () => {
-    const newErrors: {[key: string]: string} = {};
-    if (!name.trim()) newErrors.name = 'Name is required';
-    if (!email.trim()) newErrors.email = 'Email is required';
-    else if (!/\S+@\S+\.\S+/.test(email)) newErrors.email = 'Invalid email format';
-    if (!age) newErrors.age = 'Age is required';
-    else if (isNaN(Number(age)) || Number(age) < 18 || Number(age) > 100) {
-      newErrors.age = 'Age must be between 18 and 100';
-    }
-    if (!department) newErrors.department = 'Department is required';
-    if (!salary) newErrors.salary = 'Salary is required';
-    else if (isNaN(Number(salary)) || Number(salary) < 0) {
-      newErrors.salary = 'Salary must be a positive number';
-    }
+    const newErrors = validateUserFields({ name, email, age, department, salary });
     setErrors(newErrors);
     return Object.keys(newErrors).length === 0;
   };
@@ -326,6 +338,27 @@ function App() {
     if (errors.department) setErrors(prev => ({ ...prev, department: '' }));
   };
 
+  // Save an inline edit; the table shows the new value while this is pending
+  const handleCellEdit = async (user: User, key: string, value: unknown) => {
+    await new Promise(resolve => setTimeout(resolve, 600));
+    setUsers(prev => prev.map(u => (u.id === user.id ? { ...u, [key]: value } : u)));
+  };
+
+  const handlePaste = async (changes: CellChange<User>[]) => {
+    await new Promise(resolve => setTimeout(resolve, 600));
+    setUsers(prev =>
+      prev.map(u =>
+        changes.reduce((user, change) => (change.record.id === u.id ? { ...user, [change.key]: change.value } : user), u)
+      )
+    );
+  };
+
+  // Append imported users after the current ones
+  const handleImport = (imported: User[]) => {
+    setUsers(prev => [...prev, ...imported]);
+    setImporting(false);
+  };
+
   // Refresh table data
   const handleRefreshData = async () => {
     setTableLoading(true);
@@ -336,12 +369,6 @@ function App() {
   // Toggle dark mode
   const toggleDarkMode = () => setDarkMode(!darkMode);
 
-  // Calculate statistics with animation
-  const totalUsers = users.length;
-  const activeUsers = users.filter(u => u.active).length;
-  const averageAge = Math.round(users.reduce((sum, u) => sum + u.age, 0) / users.length);
-  const averageSalary = Math.round(users.reduce((sum, u) => sum + u.salary, 0) / users.length);
-
   return (
     <motion.div
       initial="hidden"
@@ -426,50 +453,6 @@ function App() {
             </motion.div>
             
             <div className="flex items-center space-x-6">
-              {/* Animated Statistics - Fixed Colors */}
-              <div className="hidden md:flex items-center space-x-6">
-                <motion.div
-                  whileHover={{ scale: 1.1 }}
-                  className="text-center"
-                >
-                  <motion.div
-                    key={totalUsers}
-                    initial={{ scale: 0.5, opacity: 0 }}
-                    animate={{ scale: 1, opacity: 1 }}
-                    className={`text-3xl font-bold ${
-                      darkMode ? 'text-blue-300' : 'text-blue-700'
-                    }`}
-                  >
-                    {totalUsers}
-                  </motion.div>
-                  <div className={`text-xs font-medium ${
-                    darkMode ? 'text-gray-300' : 'text-gray-700'
-                  }`}>
-                    Total Users
-                  </div>
-                </motion.div>
-                <motion.div
-                  whileHover={{ scale: 1.1 }}
-                  className="text-center"
-                >
-                  <motion.div
-                    key={activeUsers}
-                    initial={{ scale: 0.5, opacity: 0 }}
-                    animate={{ scale: 1, opacity: 1 }}
-                    className={`text-3xl font-bold ${
-                      darkMode ? 'text-green-300' : 'text-green-700'
-                    }`}
-                  >
-                    {activeUsers}
-                  </motion.div>
-                  <div className={`text-xs font-medium ${
-                    darkMode ? 'text-gray-300' : 'text-gray-700'
-                  }`}>
-                    Active
-                  </div>
-                </motion.div>
-              </div>
-              
               {/* Dark mode toggle */}
               <motion.button
                 onClick={toggleDarkMode}
@@ -730,26 +713,40 @@ function App() {
             </motion.div>
             
             <div className="flex items-center space-x-4">
-              {/* Fixed Statistics Colors */}
-              <div className="hidden sm:flex items-center space-x-4 text-sm">
-                <motion.div
-                  whileHover={{ scale: 1.05 }}
-                  className={`px-4 py-2 rounded-xl font-medium ${
-                    darkMode ? 'bg-gray-700 text-gray-200 border border-gray-600' : 'bg-gray-100 text-gray-800 border border-gray-200'
-                  }`}
-                >
-                  📊 Avg Age: {averageAge}
-                </motion.div>
-                <motion.div
-                  whileHover={{ scale: 1.05 }}
-                  className={`px-4 py-2 rounded-xl font-medium ${
-                    darkMode ? 'bg-gray-700 text-gray-200 border border-gray-600' : 'bg-gray-100 text-gray-800 border border-gray-200'
-                  }`}
-                >
-                  💰 Avg Salary: ${averageSalary.toLocaleString()}
-                </motion.div>
-              </div>
-              
+              <motion.button
+                onClick={() => setGroupByDepartment(!groupByDepartment)}
+                aria-pressed={groupByDepartment}
+                variants={buttonVariants}
+                initial="idle"
+                whileHover="hover"
+                whileTap="tap"
+                className={`px-6 py-3 rounded-xl transition-all duration-200 font-medium shadow-lg border ${
+                  groupByDepartment
+                    ? 'bg-blue-600 hover:bg-blue-700 text-white border-blue-700'
+                    : darkMode
+                    ? 'bg-gray-700 hover:bg-gray-600 text-gray-100 border-gray-600'
+                    : 'bg-white hover:bg-gray-50 text-gray-800 border-gray-200'
+                }`}
+              >
+                🗂️ Group by Department
+              </motion.button>
+
+              <motion.button
+                onClick={() => setImporting(!importing)}
+                aria-expanded={importing}
+                variants={buttonVariants}
+                initial="idle"
+                whileHover="hover"
+                whileTap="tap"
+                className={`px-6 py-3 rounded-xl transition-all duration-200 font-medium shadow-lg border ${
+                  darkMode
+                    ? 'bg-gray-700 hover:bg-gray-600 text-gray-100 border-gray-600'
+                    : 'bg-white hover:bg-gray-50 text-gray-800 border-gray-200'
+                }`}
+              >
+                📥 Import
+              </motion.button>
+
               {/* Fixed Refresh Button Colors */}
               <motion.button
                 onClick={handleRefreshData}
@@ -777,6 +774,15 @@ function App() {
             </div>
           </div>
           
+          {importing && (
+            <UserImport
+              darkMode={darkMode}
+              nextId={Math.max(0, ...users.map(user => user.id)) + 1}
+              onImport={handleImport}
+              onClose={() => setImporting(false)}
+            />
+          )}
+
           <motion.div
             initial={{ opacity: 0, y: 20 }}
             animate={{ opacity: 1, y: 0 }}
@@ -786,7 +792,21 @@ function App() {
               data={users}
               columns={columns}
               selectable
-              onRowSelect={setSelectedUsers}
+              onRowSelect={(_, keys) => setSelectedKeys(keys)}
+              searchable
+              searchableColumns={['name', 'email']}
+              searchPlaceholder="Search by name, department or email"
+              columnChooser
+              exportable={{ filename: 'team-members', csv: { bom: true } }}
+              keyboardNavigation
+              onCellEdit={handleCellEdit}
+              cellSelection
+              onPaste={handlePaste}
+              groupBy={
+                groupByDepartment
+                  ? { field: 'department', aggregates: { age: 'avg', salary: 'avg' } }
+                  : undefined
+              }
               loading={tableLoading}
               pagination
               pageSize={5}
@@ -828,17 +848,6 @@ function App() {
                     </motion.p>
                   </div>
                   <div className="flex space-x-3">
-                    <motion.button
-                      variants={buttonVariants}
-                      initial="idle"
-                      whileHover="hover"
-                      whileTap="tap"
-                      className={`px-4 py-2 rounded-lg text-sm font-medium shadow-lg border ${
-                        darkMode ? 'bg-blue-600 hover:bg-blue-700 border-blue-500' : 'bg-blue-600 hover:bg-blue-700 border-blue-500'
-                      } text-white transition-colors`}
-                    >
-                      📄 Export
-                    </motion.button>
                     <motion.button
                       variants={buttonVariants}
                       initial="idle"
@@ -0,0 +1,61 @@
+// src/UserImport.test.tsx
+import { describe, it, expect, vi } from 'vitest';
+import { render, screen, fireEvent } from '@testing-library/react';
+import { UserImport } from './UserImport';
+
+// jsdom's File has no text()
+const createFile = (text: () => Promise<string>) =>
+  Object.assign(new File([''], 'users.csv', { type: 'text/csv' }), { text });
+
+const chooseFile = (container: HTMLElement, file: File) =>
+  fireEvent.change(container.querySelector('input[type="file"]')!, { target: { files: [file] } });
+
+const csv = [
+  'Full Name,E-mail,Age,Dept,Pay,Status,Start Date',
+  'Dana Lee,dana@example.com,31,engineering,72000,inactive,03/15/2024',
+  'Eli Park,not-an-email,17,Legal,50000,maybe,2024-02-30',
+].join('\r\n');
+
+describe('UserImport', () => {
+  it('maps columns, previews validated rows and imports the valid ones', async () => {
+    const onImport = vi.fn();
+    const { container } = render(<UserImport darkMode={false} nextId={10} onImport={onImport} onClose={() => {}} />);
+
+    chooseFile(container, createFile(() => Promise.resolve(csv)));
+    expect(await screen.findByText(/2 data rows found/)).toBeInTheDocument();
+
+    // Headers are matched by name; Pay is not a known name for Salary
+    expect(screen.getByRole('combobox', { name: /^Email/ })).toHaveDisplayValue('E-mail');
+    expect(screen.getByRole('combobox', { name: /^Department/ })).toHaveDisplayValue('Dept');
+    expect(screen.getByRole('alert')).toHaveTextContent('Map a column to Salary.');
+    expect(screen.getByRole('button', { name: 'Preview' })).toBeDisabled();
+    fireEvent.change(screen.getByRole('combobox', { name: /^Salary/ }), { target: { value: '4' } });
+    fireEvent.click(screen.getByRole('button', { name: 'Preview' }));
+
+    expect(screen.getByRole('status')).toHaveTextContent('1 of 2 rows are valid.');
+    expect(screen.getByText('Invalid email format; Age must be between 18 and 100; Unknown department; Status must be active or inactive; Invalid date')).toBeInTheDocument();
+    expect(screen.getByLabelText('Select row 2')).toBeDisabled();
+
+    fireEvent.click(screen.getByRole('button', { name: 'Import 1 row' }));
+    expect(onImport).toHaveBeenCalledWith([
+      {
+        id: 10,
+        name: 'Dana Lee',
+        email: 'dana@example.com',
+        age: 31,
+        department: 'Engineering',
+        active: false,
+        // Read in local time, whatever the time zone
+        joinDate: '2024-03-15',
+        salary: 72000,
+      },
+    ]);
+  });
+
+  it('reports files that cannot be read', async () => {
+    const { container } = render(<UserImport darkMode={false} nextId={1} onImport={() => {}} onClose={() => {}} />);
+
+    chooseFile(container, createFile(() => Promise.reject(new Error('Permission denied'))));
+    expect(await screen.findByRole('alert')).toHaveTextContent('Could not read the file: Permission denied');
+  });
+});
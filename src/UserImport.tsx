@@ -0,0 +1,314 @@
+// src/UserImport.tsx
+import { useState } from 'react';
+import { motion } from 'framer-motion';
+import { DataTable } from './components/DataTable/DataTable';
+import type { Column, RowKey } from './components/DataTable/DataTable';
+import { parseDelimited } from './components/DataTable/importing';
+import { departments, validateUserFields } from './users';
+import type { User, UserFields } from './users';
+
+// CSV/TSV import: fields a file column can be mapped to, with header names matched automatically
+type ImportField = keyof UserFields | 'active' | 'joinDate';
+
+const importFields: Array<{ field: ImportField; label: string; required: boolean; aliases: string[] }> = [
+  { field: 'name', label: 'Full Name', required: true, aliases: ['name', 'full name', 'user name'] },
+  { field: 'email', label: 'Email', required: true, aliases: ['email', 'e mail', 'email address'] },
+  { field: 'age', label: 'Age', required: true, aliases: ['age'] },
+  { field: 'department', label: 'Department', required: true, aliases: ['department', 'dept', 'team'] },
+  { field: 'salary', label: 'Salary', required: true, aliases: ['salary', 'annual salary'] },
+  { field: 'active', label: 'Status', required: false, aliases: ['status', 'active'] },
+  { field: 'joinDate', label: 'Join Date', required: false, aliases: ['join date', 'joindate', 'joined', 'start date'] },
+];
+
+type ColumnMapping = Record<ImportField, number>;
+
+type ImportRow = Record<ImportField, string> & {
+  /** Line in the file, counting the header as line 1 */
+  line: number;
+  errors: Partial<Record<ImportField, string>>;
+};
+
+const normalizeHeader = (header: string) => header.trim().toLowerCase().replace(/[\s_-]+/g, ' ');
+
+// Maps each field to the first header matching one of its names; -1 leaves it unmapped
+const guessMapping = (headers: string[]) => {
+  const normalized = headers.map(normalizeHeader);
+  return Object.fromEntries(
+    importFields.map(({ field, aliases }) => [field, normalized.findIndex(header => aliases.includes(header))])
+  ) as ColumnMapping;
+};
+
+// Empty counts as active, like most rows in the directory
+const parseStatus = (status: string) => {
+  const value = status.trim().toLowerCase();
+  if (['', 'true', 'yes', 'y', '1', 'active'].includes(value)) return true;
+  if (['false', 'no', 'n', '0', 'inactive'].includes(value)) return false;
+  return null;
+};
+
+const pad = (n: number) => String(n).padStart(2, '0');
+const toDateString = (date: Date) => `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+
+// Join dates as YYYY-MM-DD, read in local time: `new Date('03/15/2024')` is local
+// midnight, which toISOString would move to the 14th east of UTC. Null when invalid.
+const parseJoinDate = (text: string) => {
+  const iso = /^(\d{4})-(\d{2})-(\d{2})$/.exec(text);
+  if (iso) {
+    const [year, month, day] = iso.slice(1).map(Number);
+    const date = new Date(year, month - 1, day);
+    return date.getMonth() === month - 1 && date.getDate() === day ? text : null;
+  }
+  const date = new Date(text);
+  return Number.isNaN(date.getTime()) ? null : toDateString(date);
+};
+
+const toImportRow = (cells: string[], mapping: ColumnMapping, line: number): ImportRow => {
+  const values = Object.fromEntries(
+    importFields.map(({ field }) => [field, mapping[field] === -1 ? '' : (cells[mapping[field]] ?? '').trim()])
+  ) as Record<ImportField, string>;
+  values.department = departments.find(dept => dept.toLowerCase() === values.department.toLowerCase()) ?? values.department;
+
+  const errors: ImportRow['errors'] = validateUserFields(values);
+  if (parseStatus(values.active) === null) errors.active = 'Status must be active or inactive';
+  if (values.joinDate && !parseJoinDate(values.joinDate)) errors.joinDate = 'Invalid date';
+  return { ...values, line, errors };
+};
+
+const toUser = (row: ImportRow, id: number): User => ({
+  id,
+  name: row.name,
+  email: row.email,
+  age: Number(row.age),
+  department: row.department,
+  active: parseStatus(row.active) ?? true,
+  joinDate: (row.joinDate && parseJoinDate(row.joinDate)) || toDateString(new Date()),
+  salary: Number(row.salary),
+});
+
+const isValidRow = (row: ImportRow) => Object.keys(row.errors).length === 0;
+
+// Preview cells of invalid values are red, with the message as tooltip
+const previewColumns: Column<ImportRow>[] = [
+  { key: 'line', title: 'Line', dataIndex: 'line', width: 70, align: 'right' },
+  ...importFields.map(({ field, label }): Column<ImportRow> => ({
+    key: field,
+    title: label,
+    dataIndex: field,
+    render: (value: string, row: ImportRow) =>
+      row.errors[field] ? (
+        <span className="text-red-600 dark:text-red-400 font-medium underline decoration-dotted" title={row.errors[field]}>
+          {value || '(empty)'}
+        </span>
+      ) : (
+        value
+      ),
+  })),
+  {
+    key: 'errors',
+    title: 'Issues',
+    dataIndex: 'errors',
+    render: (errors: ImportRow['errors']) =>
+      Object.keys(errors).length === 0 ? (
+        <span className="text-green-600 dark:text-green-400">✓ Valid</span>
+      ) : (
+        <span className="text-sm text-red-600 dark:text-red-400">{Object.values(errors).join('; ')}</span>
+      ),
+  },
+];
+
+export interface UserImportProps {
+  darkMode: boolean;
+  /** First id given to imported users */
+  nextId: number;
+  onImport: (users: User[]) => void;
+  onClose: () => void;
+}
+
+/**
+ * Three steps: pick or drop a CSV/TSV file, map its columns to user fields,
+ * then review the validated rows. Only valid rows can be imported.
+ */
+export function UserImport({ darkMode, nextId, onImport, onClose }: UserImportProps) {
+  const [fileName, setFileName] = useState('');
+  const [table, setTable] = useState<string[][] | null>(null);
+  const [mapping, setMapping] = useState<ColumnMapping | null>(null);
+  const [step, setStep] = useState<'file' | 'mapping' | 'preview'>('file');
+  const [fileError, setFileError] = useState('');
+  const [dragging, setDragging] = useState(false);
+  const [selectedLines, setSelectedLines] = useState<RowKey[]>([]);
+
+  const headers = table?.[0] ?? [];
+  const rows = table && mapping ? table.slice(1).map((cells, index) => toImportRow(cells, mapping, index + 2)) : [];
+  const validRows = rows.filter(isValidRow);
+  const missingFields = mapping ? importFields.filter(({ field, required }) => required && mapping[field] === -1) : [];
+
+  const readFile = async (file: File) => {
+    setFileName(file.name);
+    let parsed: string[][];
+    try {
+      parsed = parseDelimited(await file.text());
+    } catch (reason) {
+      setFileError(`Could not read the file: ${reason instanceof Error ? reason.message : 'unknown error'}`);
+      return;
+    }
+    if (parsed.length < 2) {
+      setFileError('The file needs a header row and at least one data row.');
+      return;
+    }
+    setFileError('');
+    setTable(parsed);
+    setMapping(guessMapping(parsed[0]));
+    setStep('mapping');
+  };
+
+  const showPreview = () => {
+    setSelectedLines(validRows.map(row => row.line));
+    setStep('preview');
+  };
+
+  const importSelected = () => {
+    const chosen = new Set(selectedLines);
+    onImport(validRows.filter(row => chosen.has(row.line)).map((row, index) => toUser(row, nextId + index)));
+  };
+
+  const panelText = darkMode ? 'text-gray-100' : 'text-gray-800';
+  const mutedText = darkMode ? 'text-gray-300' : 'text-gray-600';
+  const secondaryButton = `px-4 py-2 rounded-lg text-sm font-medium border ${
+    darkMode ? 'bg-gray-700 hover:bg-gray-600 text-gray-100 border-gray-600' : 'bg-white hover:bg-gray-50 text-gray-800 border-gray-200'
+  }`;
+  const primaryButton = 'px-4 py-2 rounded-lg text-sm font-medium bg-blue-600 hover:bg-blue-700 text-white border border-blue-500 disabled:opacity-50 disabled:cursor-not-allowed';
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: -10 }}
+      animate={{ opacity: 1, y: 0 }}
+      className={`mb-8 p-6 rounded-xl border ${darkMode ? 'bg-gray-900/60 border-gray-700' : 'bg-white border-gray-200'} ${panelText}`}
+      role="region"
+      aria-label="Import users"
+    >
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-xl font-semibold">📥 Import users{fileName && <span className={`ml-2 text-sm font-normal ${mutedText}`}>{fileName}</span>}</h3>
+        <button type="button" className={secondaryButton} onClick={onClose}>
+          Cancel
+        </button>
+      </div>
+
+      {step === 'file' && (
+        <>
+          <label
+            className={`flex flex-col items-center justify-center gap-2 p-10 rounded-xl border-2 border-dashed cursor-pointer transition-colors ${
+              dragging ? 'border-blue-500 bg-blue-500/10' : darkMode ? 'border-gray-600' : 'border-gray-300'
+            }`}
+            onDragOver={(e) => {
+              e.preventDefault();
+              setDragging(true);
+            }}
+            onDragLeave={() => setDragging(false)}
+            onDrop={(e) => {
+              e.preventDefault();
+              setDragging(false);
+              const file = e.dataTransfer.files[0];
+              if (file) readFile(file);
+            }}
+          >
+            <span className="text-3xl" aria-hidden="true">📄</span>
+            <span className="font-medium">Drop a CSV or TSV file here, or click to choose one</span>
+            <span className={`text-sm ${mutedText}`}>The first row must hold the column names</span>
+            <input
+              type="file"
+              accept=".csv,.tsv,.txt,text/csv,text/tab-separated-values"
+              className="sr-only"
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                if (file) readFile(file);
+                e.target.value = '';
+              }}
+            />
+          </label>
+          {fileError && (
+            <p className="mt-3 text-sm text-red-500 dark:text-red-400 font-medium" role="alert">
+              {fileError}
+            </p>
+          )}
+        </>
+      )}
+
+      {step === 'mapping' && mapping && (
+        <>
+          <p className={`mb-4 ${mutedText}`}>
+            Choose the file column for each field. {rows.length} data row{rows.length !== 1 ? 's' : ''} found.
+          </p>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            {importFields.map(({ field, label, required }) => (
+              <label key={field} className="flex items-center justify-between gap-4">
+                <span className="font-medium">
+                  {label}
+                  {required && <span className="text-red-500" aria-hidden="true"> *</span>}
+                </span>
+                <select
+                  className={`w-56 px-3 py-2 border rounded-lg ${
+                    darkMode ? 'border-gray-600 bg-gray-800 text-gray-100' : 'border-gray-300 bg-white text-gray-900'
+                  }`}
+                  value={mapping[field]}
+                  onChange={(e) => setMapping({ ...mapping, [field]: Number(e.target.value) })}
+                  aria-required={required}
+                >
+                  <option value={-1}>{required ? 'Select a column' : 'Not imported'}</option>
+                  {headers.map((header, index) => (
+                    <option key={index} value={index}>
+                      {header || `Column ${index + 1}`}
+                    </option>
+                  ))}
+                </select>
+              </label>
+            ))}
+          </div>
+          {missingFields.length > 0 && (
+            <p className="mt-4 text-sm text-red-500 dark:text-red-400 font-medium" role="alert">
+              Map a column to {missingFields.map(({ label }) => label).join(', ')}.
+            </p>
+          )}
+          <div className="flex justify-end gap-3 mt-6">
+            <button type="button" className={secondaryButton} onClick={() => setStep('file')}>
+              Back
+            </button>
+            <button type="button" className={primaryButton} onClick={showPreview} disabled={missingFields.length > 0}>
+              Preview
+            </button>
+          </div>
+        </>
+      )}
+
+      {step === 'preview' && (
+        <>
+          <p className={`mb-4 ${mutedText}`} role="status">
+            {validRows.length} of {rows.length} rows are valid.
+            {validRows.length < rows.length && ' Rows with errors are locked and will be skipped; hover a red value for details.'}
+          </p>
+          <DataTable<ImportRow>
+            data={rows}
+            columns={previewColumns}
+            rowKey="line"
+            selectable
+            isRowSelectable={isValidRow}
+            selectedRowKeys={selectedLines}
+            onSelectedRowKeysChange={setSelectedLines}
+            pagination
+            pageSize={5}
+            size="sm"
+          />
+          <div className="flex justify-end gap-3 mt-6">
+            <button type="button" className={secondaryButton} onClick={() => setStep('mapping')}>
+              Back
+            </button>
+            <button type="button" className={primaryButton} onClick={importSelected} disabled={selectedLines.length === 0}>
+              Import {selectedLines.length} row{selectedLines.length !== 1 ? 's' : ''}
+            </button>
+          </div>
+        </>
+      )}
+    </motion.div>
+  );
+}
+
+export default UserImport;
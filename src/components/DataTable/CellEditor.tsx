@@ -0,0 +1,145 @@
+// src/components/DataTable/CellEditor.tsx
+import React, { useId, useRef } from 'react';
+import { InputField } from '../InputField';
+import type { ResolvedEditor } from './editing';
+
+export interface CellEditorProps {
+  editor: ResolvedEditor;
+  /** Draft value, see `toDraft` */
+  value: unknown;
+  /** Accessible name of the control */
+  label: string;
+  error?: string;
+  autoFocus?: boolean;
+  /** E.g. while the row is being saved */
+  disabled?: boolean;
+  onChange: (draft: unknown) => void;
+  /** Enter, Tab/Shift+Tab (with the direction to move in) and focus leaving the editor */
+  onCommit?: (move?: 'next' | 'previous') => void;
+  /** Escape */
+  onCancel?: () => void;
+}
+
+/**
+ * CellEditor
+ * - InputField for text, number and date values; a select for enums; a checkbox for booleans
+ * - Enter commits, Escape cancels, Tab commits and moves to the next editable cell;
+ *   without `onCommit`/`onCancel` these keys are left to the surrounding row
+ * - Shows validation errors beneath the control
+ */
+export function CellEditor({
+  editor,
+  value,
+  label,
+  error,
+  autoFocus,
+  disabled,
+  onChange,
+  onCommit,
+  onCancel,
+}: CellEditorProps) {
+  const errorId = useId();
+  // Set once Enter, Tab or Escape closed the editor, so the following blur is not a second commit
+  const doneRef = useRef(false);
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLDivElement>) => {
+    if (e.key === 'Enter' && onCommit) {
+      e.preventDefault();
+      doneRef.current = true;
+      onCommit();
+    } else if (e.key === 'Tab' && onCommit) {
+      e.preventDefault();
+      doneRef.current = true;
+      onCommit(e.shiftKey ? 'previous' : 'next');
+    } else if (e.key === 'Escape' && onCancel) {
+      e.preventDefault();
+      doneRef.current = true;
+      onCancel();
+    } else {
+      return;
+    }
+    e.stopPropagation();
+  };
+
+  const handleBlur = (e: React.FocusEvent<HTMLDivElement>) => {
+    if (!onCommit || doneRef.current || e.currentTarget.contains(e.relatedTarget as Node | null)) return;
+    onCommit();
+  };
+
+  const change = (draft: unknown) => {
+    doneRef.current = false;
+    onChange(draft);
+  };
+
+  const controlClass = `rounded-md border bg-white dark:bg-neutral-900 text-neutral-900 dark:text-neutral-100 focus:outline-none focus:ring-2 ${
+    error ? 'border-red-500 focus:ring-red-500' : 'border-neutral-300 dark:border-neutral-600 focus:ring-blue-500'
+  }`;
+
+  let control: React.ReactNode;
+  if (editor.type === 'checkbox') {
+    control = (
+      <input
+        type="checkbox"
+        className="rounded border-neutral-300 text-blue-600 focus:ring-blue-500"
+        checked={Boolean(value)}
+        onChange={(e) => change(e.target.checked)}
+        aria-label={label}
+        aria-invalid={!!error || undefined}
+        aria-describedby={error ? errorId : undefined}
+        autoFocus={autoFocus}
+        disabled={disabled}
+      />
+    );
+  } else if (editor.type === 'select') {
+    const selected = editor.options.findIndex(option => option.value === value);
+    control = (
+      <select
+        className={`w-full px-2 py-1.5 text-sm ${controlClass}`}
+        value={selected === -1 ? '' : String(selected)}
+        onChange={(e) => change(e.target.value === '' ? null : editor.options[Number(e.target.value)].value)}
+        aria-label={label}
+        aria-invalid={!!error || undefined}
+        aria-describedby={error ? errorId : undefined}
+        autoFocus={autoFocus}
+        disabled={disabled}
+      >
+        {selected === -1 && <option value="">{editor.placeholder ?? 'Select…'}</option>}
+        {editor.options.map((option, index) => (
+          <option key={String(option.value)} value={String(index)}>
+            {option.label}
+          </option>
+        ))}
+      </select>
+    );
+  } else {
+    return (
+      <div onKeyDown={handleKeyDown} onBlur={handleBlur} onClick={(e) => e.stopPropagation()}>
+        <InputField
+          type={editor.type}
+          size="sm"
+          value={String(value ?? '')}
+          onChange={(e) => change(e.target.value)}
+          placeholder={editor.placeholder}
+          ariaLabel={label}
+          invalid={!!error}
+          errorMessage={error}
+          autoFocus={autoFocus}
+          disabled={disabled}
+        />
+      </div>
+    );
+  }
+
+  return (
+    <div onKeyDown={handleKeyDown} onBlur={handleBlur} onClick={(e) => e.stopPropagation()}>
+      {control}
+      {error && (
+        <p id={errorId} className="mt-1 text-sm text-red-600 dark:text-red-400">
+          {error}
+        </p>
+      )}
+    </div>
+  );
+}
+
+export default CellEditor;
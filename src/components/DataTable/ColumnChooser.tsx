@@ -0,0 +1,71 @@
+// src/components/DataTable/ColumnChooser.tsx
+import { usePopover } from './usePopover';
+
+export interface ColumnChooserOption {
+  key: string;
+  title: string;
+  visible: boolean;
+}
+
+export interface ColumnChooserProps {
+  options: ColumnChooserOption[];
+  onToggle: (key: string, visible: boolean) => void;
+}
+
+/**
+ * ColumnChooser
+ * - "Columns" toolbar button opening a checkbox menu
+ * - The last visible column cannot be hidden
+ * - Escape or an outside click closes the menu
+ */
+export function ColumnChooser({ options, onToggle }: ColumnChooserProps) {
+  const popover = usePopover({ align: 'end' });
+  const visibleCount = options.filter(option => option.visible).length;
+
+  return (
+    <>
+      <button
+        ref={popover.buttonRef}
+        type="button"
+        className="inline-flex items-center gap-1.5 px-3 py-1.5 text-sm text-neutral-700 dark:text-neutral-300 border border-neutral-300 dark:border-neutral-600 rounded-md hover:bg-neutral-50 dark:hover:bg-neutral-800 focus:outline-none focus:ring-2 focus:ring-blue-500"
+        onClick={popover.toggle}
+        aria-haspopup="true"
+        aria-expanded={popover.open}
+        aria-controls={popover.open ? popover.panelId : undefined}
+      >
+        <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor" aria-hidden="true">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 4v16M15 4v16M4 4h16v16H4z" />
+        </svg>
+        Columns
+      </button>
+      {popover.renderPanel(
+        <div
+          ref={popover.panelRef}
+          id={popover.panelId}
+          role="group"
+          aria-label="Visible columns"
+          className="fixed z-50 w-56 p-3 rounded-lg border border-neutral-200 dark:border-neutral-700 bg-white dark:bg-neutral-800 text-sm text-neutral-900 dark:text-neutral-100 shadow-lg"
+          style={popover.position}
+          onKeyDown={popover.handleKeyDown}
+        >
+          <div className="flex flex-col gap-1 max-h-64 overflow-y-auto">
+            {options.map(option => (
+              <label key={option.key} className="flex items-center gap-2">
+                <input
+                  type="checkbox"
+                  className="rounded border-neutral-300 text-blue-600 focus:ring-blue-500"
+                  checked={option.visible}
+                  disabled={option.visible && visibleCount === 1}
+                  onChange={(e) => onToggle(option.key, e.target.checked)}
+                />
+                {option.title || option.key}
+              </label>
+            ))}
+          </div>
+        </div>
+      )}
+    </>
+  );
+}
+
+export default ColumnChooser;
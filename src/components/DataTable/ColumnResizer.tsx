@@ -0,0 +1,114 @@
+// src/components/DataTable/ColumnResizer.tsx
+import React, { useEffect, useRef } from 'react';
+
+export interface ColumnResizerProps {
+  title: string;
+  /** Current width in px, if known */
+  width?: number;
+  minWidth: number;
+  maxWidth: number;
+  /** Called continuously while dragging */
+  onResize: (width: number) => void;
+  /** Called once a drag or keyboard step is finished */
+  onResizeEnd: (width: number) => void;
+  /** Double-click: fit the column to its content */
+  onAutoFit: () => void;
+}
+
+const KEYBOARD_STEP = 10;
+const KEYBOARD_LARGE_STEP = 50;
+
+/**
+ * ColumnResizer
+ * - Drag handle on the right border of a header cell
+ * - Keyboard: ArrowLeft/ArrowRight (Shift for larger steps), Home/End for min/max
+ * - Double-click fits the column to its content
+ * - Exposed as a focusable vertical separator with aria-valuenow
+ */
+export function ColumnResizer({
+  title,
+  width,
+  minWidth,
+  maxWidth,
+  onResize,
+  onResizeEnd,
+  onAutoFit,
+}: ColumnResizerProps) {
+  const handleRef = useRef<HTMLDivElement>(null);
+  const cleanupRef = useRef<(() => void) | null>(null);
+
+  useEffect(() => () => cleanupRef.current?.(), []);
+
+  const clamp = (value: number) => Math.round(Math.min(maxWidth, Math.max(minWidth, value)));
+
+  // Width of the header cell as rendered, used when no explicit width is set yet
+  const currentWidth = () =>
+    width ?? handleRef.current?.parentElement?.getBoundingClientRect().width ?? minWidth;
+
+  const handleMouseDown = (e: React.MouseEvent<HTMLDivElement>) => {
+    if (e.button !== 0) return;
+    e.preventDefault();
+    e.stopPropagation();
+
+    const startX = e.clientX;
+    const startWidth = currentWidth();
+    let latest = startWidth;
+
+    const handleMove = (event: MouseEvent) => {
+      latest = clamp(startWidth + event.clientX - startX);
+      onResize(latest);
+    };
+    const handleUp = () => {
+      cleanup();
+      onResizeEnd(latest);
+    };
+    const cleanup = () => {
+      document.removeEventListener('mousemove', handleMove);
+      document.removeEventListener('mouseup', handleUp);
+      document.body.style.cursor = '';
+      cleanupRef.current = null;
+    };
+
+    document.addEventListener('mousemove', handleMove);
+    document.addEventListener('mouseup', handleUp);
+    document.body.style.cursor = 'col-resize';
+    cleanupRef.current = cleanup;
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLDivElement>) => {
+    const step = e.shiftKey ? KEYBOARD_LARGE_STEP : KEYBOARD_STEP;
+    let next: number | null = null;
+    if (e.key === 'ArrowLeft') next = currentWidth() - step;
+    else if (e.key === 'ArrowRight') next = currentWidth() + step;
+    else if (e.key === 'Home') next = minWidth;
+    else if (e.key === 'End' && Number.isFinite(maxWidth)) next = maxWidth;
+    if (next === null) return;
+
+    e.preventDefault();
+    e.stopPropagation();
+    onResizeEnd(clamp(next));
+  };
+
+  return (
+    <div
+      ref={handleRef}
+      role="separator"
+      aria-orientation="vertical"
+      aria-label={`Resize ${title}`}
+      aria-valuenow={width !== undefined ? Math.round(width) : undefined}
+      aria-valuemin={minWidth}
+      aria-valuemax={Number.isFinite(maxWidth) ? maxWidth : undefined}
+      tabIndex={0}
+      className="absolute top-0 right-0 h-full w-1.5 cursor-col-resize select-none hover:bg-blue-400 focus:bg-blue-500 focus:outline-none"
+      onMouseDown={handleMouseDown}
+      onKeyDown={handleKeyDown}
+      onClick={(e) => e.stopPropagation()}
+      onDoubleClick={(e) => {
+        e.stopPropagation();
+        onAutoFit();
+      }}
+    />
+  );
+}
+
+export default ColumnResizer;
@@ -2,7 +2,7 @@
 import type { Meta, StoryObj } from '@storybook/react';
 import { useState } from 'react';
 import { DataTable } from './DataTable';
-import type { Column } from './DataTable';
+import type { Column, DataTableQuery, FilterState, RowKey, SummaryScope } from './DataTable';
 
 type User = {
   id: number;
@@ -68,7 +68,7 @@ export const Sortable: Story = {
   ),
   parameters: {
     docs: {
-      description: { story: 'Columns are sortable. Click column headers to sort ascending/descending/none.' },
+      description: { story: 'Columns are sortable. Click column headers to sort ascending/descending/none. Shift-click adds secondary sort keys.' },
     },
   },
 };
@@ -229,3 +229,643 @@ export const WithPagination: Story = {
     },
   },
 };
+
+export const ServerMode: Story = {
+  render: () => {
+    // Simulates an API that sorts and pages a large remote dataset
+    const remoteData: User[] = [...Array(250)].map((_, i) => ({
+      id: i + 1,
+      name: `User${i + 1}`,
+      email: `user${i + 1}@example.com`,
+      age: 20 + (i % 40),
+      active: i % 3 !== 0,
+    }));
+    const pageSize = 5;
+    const serverColumns: Column<User>[] = columns.map(col =>
+      col.key === 'name' ? { ...col, filter: { type: 'text' } } : col
+    );
+    const fetchPage = (query: DataTableQuery) => {
+      const nameFilter = query.filters.name;
+      const search = query.search.toLowerCase();
+      const matching = remoteData.filter(user =>
+        (nameFilter?.type !== 'text' || user.name.toLowerCase().includes(nameFilter.value.toLowerCase())) &&
+        (!search || user.name.toLowerCase().includes(search) || user.email.includes(search))
+      );
+      const sorted = [...matching].sort((a, b) => {
+        for (const { column, direction } of query.sort) {
+          const aValue = a[column as keyof User];
+          const bValue = b[column as keyof User];
+          const comparison = aValue < bValue ? -1 : aValue > bValue ? 1 : 0;
+          if (comparison !== 0) return direction === 'asc' ? comparison : -comparison;
+        }
+        return 0;
+      });
+      const start = (query.page - 1) * query.pageSize;
+      return { rows: sorted.slice(start, start + query.pageSize), total: sorted.length };
+    };
+    const [result, setResult] = useState(() =>
+      fetchPage({ sort: [], filters: {}, search: '', page: 1, pageSize })
+    );
+    return (
+      <div className="max-w-2xl">
+        <DataTable<User>
+          data={result.rows}
+          columns={serverColumns}
+          mode="server"
+          totalCount={result.total}
+          onQueryChange={(query) => setResult(fetchPage(query))}
+          searchable
+          pagination
+          pageSize={pageSize}
+        />
+      </div>
+    );
+  },
+  parameters: {
+    docs: {
+      description: { story: 'Server mode: the table reports sort, filter and page changes through onQueryChange and renders the rows it receives.' },
+    },
+  },
+};
+
+export const Filtering: Story = {
+  render: () => {
+    const filterColumns: Column<User>[] = [
+      { key: 'name', title: 'Name', dataIndex: 'name', sortable: true, filter: { type: 'text' } },
+      { key: 'email', title: 'Email', dataIndex: 'email', filter: { type: 'enum' } },
+      { key: 'age', title: 'Age', dataIndex: 'age', sortable: true, filter: { type: 'number' } },
+      {
+        key: 'active',
+        title: 'Active',
+        dataIndex: 'active',
+        render: (val) => (val ? '✔️' : '❌'),
+        filter: { type: 'boolean', trueLabel: 'Active', falseLabel: 'Inactive' },
+      },
+    ];
+    const [filters, setFilters] = useState<FilterState>({});
+    return (
+      <div className="max-w-2xl">
+        <DataTable<User>
+          data={demoData}
+          columns={filterColumns}
+          filters={filters}
+          onFilterChange={setFilters}
+        />
+        <div className="mt-4 text-sm text-neutral-700 dark:text-neutral-300">
+          <strong>Filtered columns:</strong> {Object.keys(filters).join(', ') || '–'}
+        </div>
+      </div>
+    );
+  },
+  parameters: {
+    docs: {
+      description: { story: 'Column filters open from the funnel icon in each header. Filtered columns are highlighted.' },
+    },
+  },
+};
+
+export const QuickSearch: Story = {
+  render: () => (
+    <div className="max-w-2xl">
+      <DataTable<User>
+        data={demoData}
+        columns={[
+          ...columns.slice(0, 3),
+          { ...columns[3], searchValue: (user) => (user.active ? 'active' : 'inactive') },
+        ]}
+        searchable
+        searchPlaceholder="Search users..."
+      />
+    </div>
+  ),
+  parameters: {
+    docs: {
+      description: { story: 'Quick search filters across all columns and highlights matches. The Active column searches "active"/"inactive" through searchValue.' },
+    },
+  },
+};
+
+export const Virtualized: Story = {
+  render: () => {
+    const [rows] = useState(() =>
+      [...Array(50000)].map((_, i) => ({
+        id: i + 1,
+        name: `User${i + 1}`,
+        email: `user${i + 1}@example.com`,
+        age: 20 + (i % 40),
+        active: i % 3 !== 0,
+      }))
+    );
+    return (
+      <div className="max-w-2xl">
+        <DataTable<User>
+          data={rows}
+          columns={columns}
+          virtualized
+          height={480}
+        />
+      </div>
+    );
+  },
+  parameters: {
+    docs: {
+      description: { story: '50,000 rows without pagination. Only the rows inside the scroll viewport are rendered.' },
+    },
+  },
+};
+
+export const ResizableColumns: Story = {
+  render: () => {
+    const [widths, setWidths] = useState<Record<string, number>>({});
+    return (
+      <div className="max-w-2xl">
+        <DataTable<User>
+          data={demoData}
+          columns={columns.map(col => ({ ...col, minWidth: 80, maxWidth: 320 }))}
+          resizableColumns
+          onColumnResize={(_key, _width, all) => setWidths(all)}
+        />
+        <div className="mt-4 text-sm text-neutral-700 dark:text-neutral-300">
+          <strong>Saved widths:</strong> {JSON.stringify(widths)}
+        </div>
+      </div>
+    );
+  },
+  parameters: {
+    docs: {
+      description: { story: 'Drag a header border to resize, double-click it to fit the content, or focus it and use the arrow keys. onColumnResize receives the widths to persist.' },
+    },
+  },
+};
+
+export const ReorderableColumns: Story = {
+  render: () => {
+    const [order, setOrder] = useState<string[]>([]);
+    return (
+      <div className="max-w-2xl">
+        <DataTable<User>
+          data={demoData}
+          columns={columns}
+          reorderableColumns
+          columnOrder={order}
+          onColumnOrderChange={setOrder}
+        />
+        <div className="mt-4 text-sm text-neutral-700 dark:text-neutral-300">
+          <strong>Column order:</strong> {order.join(', ') || 'default'}
+        </div>
+      </div>
+    );
+  },
+  parameters: {
+    docs: {
+      description: { story: 'Drag headers to reorder columns, or focus a header and press Alt+ArrowLeft/ArrowRight.' },
+    },
+  },
+};
+
+export const PinnedColumns: Story = {
+  args: {
+    data: demoData,
+    columns: [
+      { ...columns[0], fixed: 'left', width: 140 },
+      { ...columns[1], width: 320 },
+      { key: 'bio', title: 'Bio', dataIndex: 'email', width: 480, render: (_val, record) => `${record.name} has been a member since ${2010 + record.age % 10}.` },
+      { ...columns[2], width: 120, defaultHidden: true },
+      { ...columns[3], fixed: 'right', width: 100 },
+    ],
+    selectable: true,
+    columnChooser: true,
+  },
+  decorators: [(Story) => <div className="max-w-xl"><Story /></div>],
+  parameters: {
+    docs: {
+      description: { story: 'Name and the selection checkboxes stay pinned on the left and Active on the right while the table scrolls horizontally. Use the Columns menu to show Age or hide other columns.' },
+    },
+  },
+};
+
+export const StickyHeader: Story = {
+  args: {
+    data: Array.from({ length: 40 }, (_, i) => ({
+      id: i + 1,
+      name: `User ${i + 1}`,
+      email: `user${i + 1}@example.com`,
+      age: 20 + (i % 30),
+      active: i % 3 !== 0,
+    })),
+    columns,
+    selectable: true,
+    scroll: { x: 800, y: 320 },
+  },
+  parameters: {
+    docs: {
+      description: { story: 'The body scrolls inside a 320px area while the header stays in place; scroll.x sets a minimum table width for horizontal scrolling.' },
+    },
+  },
+};
+
+export const ExpandableRows: Story = {
+  args: {
+    data: demoData,
+    columns,
+    expandable: {
+      expandedRowRender: (record) => (
+        <div className="space-y-1 text-sm">
+          <p><strong>{record.name}</strong> joined {record.age % 5 + 1} years ago.</p>
+          <p className="text-neutral-500 dark:text-neutral-400">Contact: {record.email}</p>
+        </div>
+      ),
+      rowExpandable: (record) => record.active,
+    },
+  },
+  parameters: {
+    docs: {
+      description: { story: 'Active users can be expanded to show a detail panel; the panel is only rendered once opened.' },
+    },
+  },
+};
+
+type Category = { id: string; name: string; items: number; children?: Category[] };
+
+const categoryColumns: Column<Category>[] = [
+  { key: 'name', title: 'Category', dataIndex: 'name', sortable: true },
+  { key: 'items', title: 'Items', dataIndex: 'items', sortable: true, align: 'right' },
+];
+
+const categories: Category[] = [
+  {
+    id: 'electronics',
+    name: 'Electronics',
+    items: 120,
+    children: [
+      { id: 'phones', name: 'Phones', items: 45, children: [{ id: 'android', name: 'Android', items: 30 }, { id: 'ios', name: 'iOS', items: 15 }] },
+      { id: 'laptops', name: 'Laptops', items: 75 },
+    ],
+  },
+  { id: 'books', name: 'Books', items: 80 },
+  { id: 'garden', name: 'Garden', items: 35 },
+];
+
+export const TreeData: StoryObj<typeof DataTable<Category>> = {
+  render: () => (
+    <DataTable<Category>
+      data={categories}
+      columns={categoryColumns}
+      treeData
+      selectable
+      defaultExpandedTreeKeys={['electronics']}
+      hasChildren={(record) => record.id !== 'books'}
+      loadChildren={(record) =>
+        new Promise(resolve =>
+          setTimeout(() => resolve([
+            { id: `${record.id}-tools`, name: 'Tools', items: 20 },
+            { id: `${record.id}-seeds`, name: 'Seeds', items: 15 },
+          ]), 800)
+        )
+      }
+    />
+  ),
+  parameters: {
+    docs: {
+      description: { story: 'Nested categories with cascading selection. Sorting applies within each level; Garden loads its children on first expand.' },
+    },
+  },
+};
+
+export const GroupedRows: Story = {
+  args: {
+    data: demoData,
+    columns,
+    groupBy: {
+      field: 'active',
+      title: (group) => (group.value ? 'Active' : 'Inactive'),
+      aggregates: { age: 'avg', email: 'count' },
+    },
+    defaultSort: [{ column: 'name', direction: 'asc' }],
+  },
+  parameters: {
+    docs: {
+      description: { story: 'Rows grouped by status with collapsible headers showing the row count and aggregates. Groups keep their own order while rows sort within them.' },
+    },
+  },
+};
+
+export const SummaryRow: Story = {
+  render: () => {
+    const [scope, setScope] = useState<SummaryScope>('all');
+    return (
+      <div className="space-y-4">
+        <label className="flex items-center gap-2 text-sm text-neutral-700 dark:text-neutral-300">
+          Summarize
+          <select
+            className="rounded border border-neutral-300 dark:border-neutral-600 bg-white dark:bg-neutral-900 px-2 py-1"
+            value={scope}
+            onChange={(e) => setScope(e.target.value as SummaryScope)}
+          >
+            <option value="all">All rows</option>
+            <option value="page">Current page</option>
+            <option value="selection">Selection</option>
+          </select>
+        </label>
+        <DataTable<User>
+          data={demoData}
+          columns={[
+            { ...columns[0], aggregate: 'count', aggregateRender: (count) => `${count} users` },
+            columns[1],
+            { ...columns[2], aggregate: 'avg' },
+            { ...columns[3], aggregate: (rows) => rows.filter(row => row.active).length, aggregateRender: (count) => `${count} active` },
+          ]}
+          summaryScope={scope}
+          selectable
+          pagination
+          pageSize={3}
+        />
+      </div>
+    );
+  },
+  parameters: {
+    docs: {
+      description: { story: 'A footer row aggregates each column over all rows, the current page or the selected rows.' },
+    },
+  },
+};
+
+export const EditableCells: Story = {
+  render: () => {
+    const [users, setUsers] = useState(demoData);
+    return (
+      <DataTable<User>
+        data={users}
+        columns={[
+          { ...columns[0], editable: true, validate: (value) => (String(value).trim() ? undefined : 'Name is required') },
+          {
+            ...columns[1],
+            editable: true,
+            validate: (value) => (/\S+@\S+\.\S+/.test(String(value)) ? undefined : 'Invalid email format'),
+          },
+          {
+            ...columns[2],
+            editable: true,
+            validate: (value) => (typeof value === 'number' && value >= 18 ? undefined : 'Must be 18 or older'),
+          },
+          { ...columns[3], editable: { type: 'checkbox' } },
+        ]}
+        onCellEdit={async (record, key, value) => {
+          // Simulated request; ages over 99 are rejected and rolled back
+          await new Promise(resolve => setTimeout(resolve, 800));
+          if (key === 'age' && Number(value) > 99) throw new Error('Rejected by server');
+          setUsers(prev => prev.map(user => (user.id === record.id ? { ...user, [key]: value } : user)));
+        }}
+      />
+    );
+  },
+  parameters: {
+    docs: {
+      description: { story: 'Double-click a cell (or press Enter on it) to edit. Enter saves, Escape cancels, Tab moves to the next cell. Saves show right away and roll back when the simulated request fails (ages over 99).' },
+    },
+  },
+};
+
+export const RowEditing: Story = {
+  render: () => {
+    const [users, setUsers] = useState(demoData);
+    return (
+      <DataTable<User>
+        data={users}
+        columns={[
+          { ...columns[0], editable: true },
+          { ...columns[1], editable: true },
+          { ...columns[2], editable: true },
+          { ...columns[3], editable: true },
+        ]}
+        rowEditing={{
+          validate: (values) => {
+            const errors: Record<string, string> = {};
+            if (!values.name.trim()) errors.name = 'Name is required';
+            if (!/\S+@\S+\.\S+/.test(values.email)) errors.email = 'Invalid email format';
+            // Cross-field rule flagging both fields
+            if (values.active && values.age < 18) {
+              errors.age = 'Active users must be 18 or older';
+              errors.active = 'Deactivate users under 18';
+            }
+            return errors;
+          },
+          onSave: async (record, changes) => {
+            await new Promise(resolve => setTimeout(resolve, 800));
+            setUsers(prev => prev.map(user => (user.id === record.id ? { ...user, ...changes } : user)));
+          },
+        }}
+      />
+    );
+  },
+  parameters: {
+    docs: {
+      description: { story: 'Edit puts every editable column of a row into inputs. Changed fields are highlighted, Save stays disabled until something changed, and the row validator can flag several fields at once. Enter saves, Escape cancels.' },
+    },
+  },
+};
+
+export const KeyboardNavigation: Story = {
+  render: () => {
+    const [opened, setOpened] = useState<User | null>(null);
+    return (
+      <div className="space-y-4">
+        <DataTable<User>
+          data={demoData}
+          columns={columns.map(column => (column.key === 'name' ? { ...column, editable: true } : column))}
+          keyboardNavigation
+          selectable
+          pagination
+          pageSize={3}
+          onRowClick={setOpened}
+        />
+        <p className="text-sm text-neutral-700 dark:text-neutral-300" role="status">
+          {opened ? `Opened ${opened.name}` : 'Press Enter on a row to open it'}
+        </p>
+      </div>
+    );
+  },
+  parameters: {
+    docs: {
+      description: { story: 'An ARIA grid with one tab stop. Arrow keys, Home/End (Ctrl for the first/last row) and PageUp/PageDown move between cells; Enter sorts from the header, edits editable cells or opens the row; Space toggles selection.' },
+    },
+  },
+};
+
+export const SelectionAcrossPages: Story = {
+  render: () => {
+    const [selectedKeys, setSelectedKeys] = useState<RowKey[]>([]);
+    return (
+      <div className="max-w-2xl space-y-4">
+        <DataTable<User>
+          data={[...Array(25)].map((_, i) => ({
+            id: i + 1,
+            name: `User${i + 1}`,
+            email: `user${i + 1}@example.com`,
+            age: 20 + (i % 10),
+            active: i % 2 === 0,
+          }))}
+          columns={columns}
+          selectable
+          pagination
+          pageSize={5}
+          onRowSelect={(_, keys) => setSelectedKeys(keys)}
+        />
+        <p className="text-sm text-neutral-700 dark:text-neutral-300">
+          <strong>{selectedKeys.length} selected:</strong> {selectedKeys.join(', ') || '–'}
+        </p>
+      </div>
+    );
+  },
+  parameters: {
+    docs: {
+      description: { story: 'Shift-click a checkbox to select a range, even across pages. Selecting a whole page offers to select every result. The selection survives paging and sorting.' },
+    },
+  },
+};
+
+export const SelectionModes: Story = {
+  render: () => {
+    const [picked, setPicked] = useState<User | null>(null);
+    const [selected, setSelected] = useState<User[]>([]);
+    return (
+      <div className="max-w-2xl space-y-6">
+        <div className="space-y-2">
+          <DataTable<User>
+            data={demoData}
+            columns={columns}
+            selectable
+            selectionMode="single"
+            onRowSelect={(rows) => setPicked(rows[0] ?? null)}
+          />
+          <p className="text-sm text-neutral-700 dark:text-neutral-300">
+            <strong>Picked:</strong> {picked?.name ?? '–'}
+          </p>
+        </div>
+        <div className="space-y-2">
+          <DataTable<User>
+            data={demoData}
+            columns={columns}
+            selectable
+            isRowSelectable={(record) => record.active}
+            maxSelection={2}
+            onRowSelect={(rows) => setSelected(rows)}
+          />
+          <p className="text-sm text-neutral-700 dark:text-neutral-300">
+            <strong>{selected.length} of at most 2 selected:</strong> {selected.map(user => user.name).join(', ') || '–'}
+          </p>
+        </div>
+      </div>
+    );
+  },
+  parameters: {
+    docs: {
+      description: { story: 'Radio buttons select a single row. Below, inactive users are locked and at most two rows can be selected; the header checkbox only considers unlocked rows.' },
+    },
+  },
+};
+
+export const CsvExport: Story = {
+  args: {
+    data: demoData,
+    columns: [
+      ...columns.slice(0, 3),
+      { ...columns[3], exportValue: (user: User) => (user.active ? 'Active' : 'Inactive') },
+    ],
+    selectable: true,
+    pagination: true,
+    pageSize: 3,
+    exportable: { filename: 'users', csv: { bom: true } },
+  },
+  parameters: {
+    docs: {
+      description: { story: 'The Export button downloads the current view as CSV: visible columns, in the applied sort and filter, across all pages or only the selected rows.' },
+    },
+  },
+};
+
+export const SpreadsheetExport: Story = {
+  args: {
+    data: demoData,
+    columns: [
+      { ...columns[0], width: 160 },
+      { ...columns[1], width: 240 },
+      { ...columns[2], aggregate: 'avg' },
+      { ...columns[3], exportValue: (user: User) => user.active },
+    ],
+    groupBy: { field: 'active', aggregates: { age: 'max' } },
+    exportable: { filename: 'users', sheetName: 'Users' },
+  },
+  parameters: {
+    docs: {
+      description: { story: 'Exports to XLSX, JSON or NDJSON keep numbers, dates and booleans typed. Spreadsheets get column widths from `Column.width` and include the group header and summary rows.' },
+    },
+  },
+};
+
+export const CellClipboard: Story = {
+  render: () => {
+    const [users, setUsers] = useState(demoData);
+    return (
+      <DataTable<User>
+        data={users}
+        columns={[
+          { ...columns[0], editable: true, validate: (value) => (String(value).trim() ? undefined : 'Name is required') },
+          columns[1],
+          {
+            ...columns[2],
+            editable: true,
+            validate: (value) => (typeof value === 'number' && value >= 18 ? undefined : 'Must be 18 or older'),
+          },
+          { ...columns[3], editable: { type: 'checkbox' } },
+        ]}
+        cellSelection
+        onPaste={(changes) =>
+          setUsers(prev =>
+            prev.map(user =>
+              changes.reduce((next, change) => (change.record.id === user.id ? { ...next, [change.key]: change.value } : next), user)
+            )
+          )
+        }
+      />
+    );
+  },
+  parameters: {
+    docs: {
+      description: { story: 'Drag across cells or extend with Shift+Arrow keys, then copy with Ctrl+C. Pasting from a spreadsheet fills the cells from the top-left of the range; a single value fills the whole range. Invalid values and changes to the read-only Email column are skipped and outlined.' },
+    },
+  },
+};
+
+export const InfiniteScroll: Story = {
+  render: () => {
+    const [users, setUsers] = useState<User[]>([]);
+    const [cursor, setCursor] = useState<number | null>(0);
+    // Simulated cursor API: 20 users per request, 100 in total
+    const loadMore = async () => {
+      if (cursor === null) return;
+      await new Promise(resolve => setTimeout(resolve, 800));
+      const next = Array.from({ length: 20 }, (_, i) => {
+        const id = cursor + i + 1;
+        return { id, name: `User ${id}`, email: `user${id}@example.com`, age: 20 + (id % 30), active: id % 3 !== 0 };
+      });
+      setUsers(prev => [...prev, ...next]);
+      setCursor(cursor + 20 < 100 ? cursor + 20 : null);
+    };
+    return (
+      <DataTable<User>
+        data={users}
+        columns={columns}
+        maxHeight={320}
+        infinite
+        hasMore={cursor !== null}
+        onLoadMore={loadMore}
+      />
+    );
+  },
+  parameters: {
+    docs: {
+      description: { story: 'Rows come from a cursor-based API 20 at a time. Scrolling near the end loads the next batch below a loading row, without moving the rows in view, until `hasMore` turns false.' },
+    },
+  },
+};
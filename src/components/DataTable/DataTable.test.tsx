@@ -1,6 +1,6 @@
 // src/components/DataTable/DataTable.test.tsx
-import { describe, it, expect, vi } from 'vitest';
-import { render, screen, fireEvent } from '@testing-library/react';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { render, screen, fireEvent, act } from '@testing-library/react';
 import { DataTable } from './DataTable';
 import type { Column } from './DataTable';
 
@@ -98,11 +98,11 @@ describe('DataTable', () => {
     
     // Click first row checkbox
     fireEvent.click(rowCheckboxes[0]);
-    expect(handleRowSelect).toHaveBeenCalledWith([mockUsers[0]]);
+    expect(handleRowSelect).toHaveBeenCalledWith([mockUsers[0]], [1]);
     
     // Click select all
     fireEvent.click(selectAllCheckbox);
-    expect(handleRowSelect).toHaveBeenLastCalledWith(mockUsers);
+    expect(handleRowSelect).toHaveBeenLastCalledWith(mockUsers, [1, 2, 3]);
   });
 
   it('sorts data correctly', () => {
@@ -238,4 +238,1627 @@ describe('DataTable', () => {
     fireEvent.click(nameHeader);
     expect(nameHeader.closest('th')).not.toHaveAttribute('aria-sort');
   });
+
+  it('renders server-mode rows as-is and reports query changes', () => {
+    const handleQueryChange = vi.fn();
+    render(
+      <DataTable
+        data={mockUsers}
+        columns={columns}
+        mode="server"
+        totalCount={30}
+        pagination
+        pageSize={3}
+        onQueryChange={handleQueryChange}
+      />
+    );
+
+    // Footer uses the server total, rows keep their given order
+    expect(screen.getByText('30')).toBeInTheDocument();
+    expect(screen.getByText('Page 1 of 10')).toBeInTheDocument();
+
+    fireEvent.click(screen.getByText('Age'));
+    expect(handleQueryChange).toHaveBeenLastCalledWith({
+      sort: [{ column: 'age', direction: 'asc' }],
+      filters: {},
+      search: '',
+      page: 1,
+      pageSize: 3,
+    });
+    const ageCells = screen.getAllByText(/^(24|28|32)$/);
+    expect(ageCells.map(cell => cell.textContent)).toEqual(['28', '32', '24']);
+
+    fireEvent.click(screen.getByText('Next'));
+    expect(handleQueryChange).toHaveBeenLastCalledWith({
+      sort: [{ column: 'age', direction: 'asc' }],
+      filters: {},
+      search: '',
+      page: 2,
+      pageSize: 3,
+    });
+    // All provided rows are rendered, not sliced locally
+    expect(screen.getByText('Alice')).toBeInTheDocument();
+    expect(screen.getByText('Carol')).toBeInTheDocument();
+  });
+
+  it('supports uncontrolled defaults for sort, page and selection', () => {
+    render(
+      <DataTable
+        data={mockUsers}
+        columns={columns}
+        selectable
+        defaultSort={[{ column: 'age', direction: 'desc' }]}
+        defaultSelectedRowKeys={[2]}
+      />
+    );
+
+    expect(screen.getByText('Age').closest('th')).toHaveAttribute('aria-sort', 'descending');
+    const ageCells = screen.getAllByText(/^(24|28|32)$/);
+    expect(ageCells[0]).toHaveTextContent('32');
+    expect(screen.getByRole('checkbox', { name: 'Select row 1' })).toBeChecked();
+  });
+
+  it('follows controlled sort, page and selection props', () => {
+    const handleSortChange = vi.fn();
+    const handlePageChange = vi.fn();
+    const handleKeysChange = vi.fn();
+    const { rerender } = render(
+      <DataTable
+        data={mockUsers}
+        columns={columns}
+        selectable
+        pagination
+        pageSize={2}
+        sort={[{ column: 'name', direction: 'asc' }]}
+        onSortChange={handleSortChange}
+        page={1}
+        onPageChange={handlePageChange}
+        selectedRowKeys={[]}
+        onSelectedRowKeysChange={handleKeysChange}
+      />
+    );
+
+    // Interactions are reported but the rendered state only follows the props
+    fireEvent.click(screen.getByText('Age'));
+    expect(handleSortChange).toHaveBeenCalledWith([{ column: 'age', direction: 'asc' }]);
+    expect(screen.getByText('Name').closest('th')).toHaveAttribute('aria-sort', 'ascending');
+
+    fireEvent.click(screen.getByText('Next'));
+    expect(handlePageChange).toHaveBeenCalledWith(2);
+    expect(screen.getByText('Page 1 of 2')).toBeInTheDocument();
+
+    fireEvent.click(screen.getAllByRole('checkbox', { name: /select row/i })[0]);
+    expect(handleKeysChange).toHaveBeenCalledWith([1]);
+    expect(screen.getAllByRole('checkbox', { name: /select row/i })[0]).not.toBeChecked();
+
+    rerender(
+      <DataTable
+        data={mockUsers}
+        columns={columns}
+        selectable
+        pagination
+        pageSize={2}
+        sort={[{ column: 'name', direction: 'asc' }]}
+        page={2}
+        selectedRowKeys={[3]}
+      />
+    );
+    expect(screen.getByText('Page 2 of 2')).toBeInTheDocument();
+    expect(screen.getByText('Carol')).toBeInTheDocument();
+    expect(screen.getByRole('checkbox', { name: /select row/i })).toBeChecked();
+  });
+
+  it('adds secondary sort keys on shift-click', () => {
+    const team: User[] = [
+      { id: 1, name: 'Dana', email: 'dana@example.com', age: 30, active: true },
+      { id: 2, name: 'Ben', email: 'ben@example.com', age: 25, active: false },
+      { id: 3, name: 'Ann', email: 'ann@example.com', age: 30, active: true },
+      { id: 4, name: 'Cole', email: 'cole@example.com', age: 25, active: true },
+    ];
+    render(<DataTable data={team} columns={columns} />);
+
+    fireEvent.click(screen.getByText('Age'));
+    fireEvent.click(screen.getByText('Name'), { shiftKey: true });
+
+    const names = screen.getAllByText(/^(Ann|Ben|Cole|Dana)$/).map(cell => cell.textContent);
+    expect(names).toEqual(['Ben', 'Cole', 'Ann', 'Dana']);
+
+    // Both headers expose their direction and priority
+    const ageHeader = screen.getByRole('columnheader', { name: /age/i });
+    const nameHeader = screen.getByRole('columnheader', { name: /name/i });
+    expect(ageHeader).toHaveAttribute('aria-sort', 'ascending');
+    expect(nameHeader).toHaveAttribute('aria-sort', 'ascending');
+    expect(ageHeader).toHaveTextContent('sort priority 1');
+    expect(nameHeader).toHaveTextContent('sort priority 2');
+
+    // Shift-click cycles the secondary key without touching the primary
+    fireEvent.click(screen.getByText('Name'), { shiftKey: true });
+    expect(nameHeader).toHaveAttribute('aria-sort', 'descending');
+    expect(screen.getAllByText(/^(Ann|Ben|Cole|Dana)$/).map(cell => cell.textContent))
+      .toEqual(['Cole', 'Ben', 'Dana', 'Ann']);
+
+    // A plain click replaces all keys
+    fireEvent.click(screen.getByText('Email'));
+    expect(ageHeader).toHaveAttribute('aria-sort', 'none');
+    expect(nameHeader).toHaveAttribute('aria-sort', 'none');
+    expect(screen.queryByText('sort priority')).not.toBeInTheDocument();
+  });
+
+  it('sorts with built-in sort types, custom sorters and null placement', () => {
+    type Item = { id: number; label: string; due: string | null; done: boolean; rank?: number };
+    const items: Item[] = [
+      { id: 1, label: 'item10', due: '2023-01-05', done: true, rank: 2 },
+      { id: 2, label: 'Item2', due: null, done: false },
+      { id: 3, label: 'item1', due: '2022-12-31', done: false, rank: 1 },
+    ];
+    const itemColumns: Column<Item>[] = [
+      { key: 'label', title: 'Label', dataIndex: 'label', sortable: true, sortType: 'natural' },
+      { key: 'due', title: 'Due', dataIndex: 'due', sortable: true, sortType: 'date', nullsPosition: 'last' },
+      { key: 'done', title: 'Done', dataIndex: 'done', sortable: true, sortType: 'boolean', render: (done) => (done ? 'yes' : 'no') },
+      { key: 'rank', title: 'Rank', dataIndex: 'rank', sortable: true, sorter: (a, b) => (a.rank ?? 99) - (b.rank ?? 99) },
+    ];
+    render(<DataTable data={items} columns={itemColumns} />);
+    const labels = () => screen.getAllByText(/^item\d+$/i).map(cell => cell.textContent);
+
+    fireEvent.click(screen.getByText('Label'));
+    expect(labels()).toEqual(['item1', 'Item2', 'item10']);
+
+    // Empty dates stay last in both directions
+    fireEvent.click(screen.getByText('Due'));
+    expect(labels()).toEqual(['item1', 'item10', 'Item2']);
+    fireEvent.click(screen.getByText('Due'));
+    expect(labels()).toEqual(['item10', 'item1', 'Item2']);
+
+    fireEvent.click(screen.getByText('Done'));
+    expect(labels()).toEqual(['Item2', 'item1', 'item10']);
+
+    fireEvent.click(screen.getByText('Rank'));
+    fireEvent.click(screen.getByText('Rank'));
+    expect(labels()).toEqual(['Item2', 'item10', 'item1']);
+  });
+
+  it('filters rows from header popovers and marks filtered columns', () => {
+    const handleFilterChange = vi.fn();
+    const filterColumns: Column<User>[] = [
+      { key: 'name', title: 'Name', dataIndex: 'name', filter: { type: 'text' } },
+      { key: 'age', title: 'Age', dataIndex: 'age', filter: { type: 'number' } },
+      { key: 'active', title: 'Active', dataIndex: 'active', filter: { type: 'boolean' } },
+    ];
+    render(<DataTable data={mockUsers} columns={filterColumns} onFilterChange={handleFilterChange} />);
+
+    fireEvent.click(screen.getByRole('button', { name: 'Filter Age' }));
+    fireEvent.change(screen.getByLabelText('Age minimum'), { target: { value: '25' } });
+    fireEvent.click(screen.getByRole('button', { name: 'Apply' }));
+
+    expect(handleFilterChange).toHaveBeenLastCalledWith({ age: { type: 'number', min: 25 } });
+    expect(screen.queryByText('Carol')).not.toBeInTheDocument();
+    expect(screen.getByText('Alice')).toBeInTheDocument();
+    expect(screen.getByRole('columnheader', { name: /age/i })).toHaveAttribute('data-filtered', 'true');
+
+    fireEvent.click(screen.getByRole('button', { name: 'Filter Active' }));
+    fireEvent.click(screen.getByRole('radio', { name: 'No' }));
+    fireEvent.click(screen.getByRole('button', { name: 'Apply' }));
+    expect(screen.getByText('Bob')).toBeInTheDocument();
+    expect(screen.queryByText('Alice')).not.toBeInTheDocument();
+
+    // Clearing a filter restores its rows
+    fireEvent.click(screen.getByRole('button', { name: 'Filter Age' }));
+    fireEvent.click(screen.getByRole('button', { name: 'Clear' }));
+    expect(handleFilterChange).toHaveBeenLastCalledWith({ active: { type: 'boolean', value: false } });
+    expect(screen.getByRole('columnheader', { name: /age/i })).not.toHaveAttribute('data-filtered');
+  });
+
+  it('builds enum filter options from distinct values and keeps headers when nothing matches', () => {
+    const filterColumns: Column<User>[] = [
+      { key: 'name', title: 'Name', dataIndex: 'name', filter: { type: 'enum' } },
+      { key: 'email', title: 'Email', dataIndex: 'email', filter: { type: 'text' } },
+    ];
+    render(<DataTable data={mockUsers} columns={filterColumns} emptyText="No matches" />);
+
+    fireEvent.click(screen.getByRole('button', { name: 'Filter Name' }));
+    expect(screen.getAllByRole('checkbox').map(box => box.closest('label')?.textContent))
+      .toEqual(['Alice', 'Bob', 'Carol']);
+    fireEvent.click(screen.getByRole('checkbox', { name: 'Bob' }));
+    fireEvent.click(screen.getByRole('button', { name: 'Apply' }));
+    expect(screen.getAllByRole('row')).toHaveLength(2);
+
+    fireEvent.click(screen.getByRole('button', { name: 'Filter Email' }));
+    fireEvent.change(screen.getByLabelText('Email contains'), { target: { value: 'zzz' } });
+    fireEvent.keyDown(screen.getByLabelText('Email contains'), { key: 'Enter' });
+    expect(screen.getByText('No matches')).toBeInTheDocument();
+    expect(screen.getByRole('button', { name: 'Filter Email' })).toBeInTheDocument();
+  });
+
+  it('keeps header popovers below their button through scrolling and closes them on Escape', () => {
+    const filterColumns: Column<User>[] = [
+      { key: 'name', title: 'Name', dataIndex: 'name', filter: { type: 'text' } },
+    ];
+    render(<DataTable data={mockUsers} columns={filterColumns} />);
+    const button = screen.getByRole('button', { name: 'Filter Name' });
+    const rect = vi.spyOn(button, 'getBoundingClientRect').mockReturnValue(new DOMRect(40, 100, 20, 20));
+
+    fireEvent.click(button);
+    const panel = screen.getByRole('dialog', { name: 'Filter Name' });
+    expect(panel).toHaveStyle({ top: '124px', left: '40px' });
+
+    rect.mockReturnValue(new DOMRect(40, 30, 20, 20));
+    fireEvent.scroll(button.closest('div')!);
+    expect(panel).toHaveStyle({ top: '54px', left: '40px' });
+
+    fireEvent.keyDown(screen.getByLabelText('Name contains'), { key: 'Escape' });
+    expect(screen.queryByRole('dialog')).not.toBeInTheDocument();
+    expect(button).toHaveFocus();
+  });
+
+  it('reports filters in server mode without filtering locally', () => {
+    const handleQueryChange = vi.fn();
+    const filterColumns: Column<User>[] = [
+      { key: 'name', title: 'Name', dataIndex: 'name', filter: { type: 'text' } },
+    ];
+    render(<DataTable data={mockUsers} columns={filterColumns} mode="server" onQueryChange={handleQueryChange} />);
+
+    fireEvent.click(screen.getByRole('button', { name: 'Filter Name' }));
+    fireEvent.change(screen.getByLabelText('Name contains'), { target: { value: 'ali' } });
+    fireEvent.click(screen.getByRole('button', { name: 'Apply' }));
+
+    expect(handleQueryChange).toHaveBeenCalledWith({
+      sort: [],
+      filters: { name: { type: 'text', value: 'ali' } },
+      search: '',
+      page: 1,
+      pageSize: 10,
+    });
+    expect(screen.getByText('Bob')).toBeInTheDocument();
+  });
+
+  it('offers a text filter in server mode for enum columns without options', () => {
+    const handleQueryChange = vi.fn();
+    const filterColumns: Column<User>[] = [
+      { key: 'name', title: 'Name', dataIndex: 'name', filter: { type: 'enum' } },
+      { key: 'active', title: 'Active', dataIndex: 'active', filter: { type: 'enum', options: [{ label: 'Yes', value: true }] } },
+    ];
+    render(<DataTable data={mockUsers} columns={filterColumns} mode="server" onQueryChange={handleQueryChange} />);
+
+    fireEvent.click(screen.getByRole('button', { name: 'Filter Name' }));
+    expect(screen.queryByRole('checkbox')).not.toBeInTheDocument();
+    fireEvent.change(screen.getByLabelText('Name contains'), { target: { value: 'Dave' } });
+    fireEvent.click(screen.getByRole('button', { name: 'Apply' }));
+    expect(handleQueryChange).toHaveBeenLastCalledWith(
+      expect.objectContaining({ filters: { name: { type: 'text', value: 'Dave' } } })
+    );
+
+    fireEvent.click(screen.getByRole('button', { name: 'Filter Active' }));
+    expect(screen.getByRole('checkbox', { name: 'Yes' })).toBeInTheDocument();
+  });
+
+  describe('quick search', () => {
+    beforeEach(() => {
+      vi.useFakeTimers();
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it('filters rows after the debounce and highlights matches', () => {
+      const handleSearchChange = vi.fn();
+      render(
+        <DataTable data={mockUsers} columns={columns} searchable onSearchChange={handleSearchChange} />
+      );
+
+      fireEvent.change(screen.getByRole('searchbox', { name: 'Search table' }), { target: { value: 'CAR' } });
+      // Nothing happens until the user pauses
+      expect(screen.getByText('Alice')).toBeInTheDocument();
+
+      act(() => {
+        vi.advanceTimersByTime(300);
+      });
+      expect(handleSearchChange).toHaveBeenCalledWith('CAR');
+      expect(screen.queryByText('Alice')).not.toBeInTheDocument();
+      expect(screen.getByRole('status')).toHaveTextContent('1 of 3 rows match');
+
+      const marks = document.querySelectorAll('mark');
+      expect(Array.from(marks).map(mark => mark.textContent)).toEqual(['Car', 'car']);
+    });
+
+    it('respects searchableColumns and searchValue extractors', () => {
+      const statusColumns: Column<User>[] = [
+        ...columns.slice(0, 3),
+        {
+          key: 'active',
+          title: 'Active',
+          dataIndex: 'active',
+          render: (value) => <span>{value ? 'On' : 'Off'}</span>,
+          searchValue: (user) => (user.active ? 'on' : 'off'),
+        },
+      ];
+      render(
+        <DataTable
+          data={mockUsers}
+          columns={statusColumns}
+          searchable
+          searchableColumns={['name', 'active']}
+          searchDebounce={100}
+        />
+      );
+      const searchBox = screen.getByRole('searchbox', { name: 'Search table' });
+
+      fireEvent.change(searchBox, { target: { value: 'off' } });
+      act(() => {
+        vi.advanceTimersByTime(100);
+      });
+      expect(screen.getByText('Bob')).toBeInTheDocument();
+      expect(screen.queryByText('Alice')).not.toBeInTheDocument();
+      // Highlighting reaches into markup returned by render
+      expect(screen.getByText('Off').tagName).toBe('MARK');
+
+      // Email is not in the allow-list
+      fireEvent.change(searchBox, { target: { value: 'example.com' } });
+      act(() => {
+        vi.advanceTimersByTime(100);
+      });
+      expect(screen.getByText('No data available')).toBeInTheDocument();
+    });
+
+    it('keeps a sort made while the search is pending', () => {
+      const handleQueryChange = vi.fn();
+      render(
+        <DataTable data={mockUsers} columns={columns} searchable mode="server" onQueryChange={handleQueryChange} />
+      );
+
+      fireEvent.change(screen.getByRole('searchbox', { name: 'Search table' }), { target: { value: 'a' } });
+      fireEvent.click(screen.getByText('Age'));
+      act(() => {
+        vi.advanceTimersByTime(300);
+      });
+      expect(handleQueryChange).toHaveBeenLastCalledWith({
+        sort: [{ column: 'age', direction: 'asc' }],
+        filters: {},
+        search: 'a',
+        page: 1,
+        pageSize: 10,
+      });
+    });
+  });
+
+  it('renders only the visible window of rows when virtualized', () => {
+    const manyUsers = Array.from({ length: 1000 }, (_, i) => ({
+      id: i + 1,
+      name: `User ${i + 1}`,
+      email: `user${i + 1}@example.com`,
+      age: 20 + (i % 50),
+      active: i % 2 === 0,
+    }));
+    render(
+      <DataTable data={manyUsers} columns={columns} virtualized height={400} rowHeight={40} overscan={5} />
+    );
+
+    const table = screen.getByRole('table');
+    expect(table).toHaveAttribute('aria-rowcount', '1001');
+    // 11 rows intersect the 400px viewport, plus 5 rows of overscan below
+    let rows = screen.getAllByText(/^User \d+$/);
+    expect(rows).toHaveLength(16);
+    expect(rows[0].closest('tr')).toHaveAttribute('aria-rowindex', '2');
+
+    const viewport = table.parentElement!;
+    viewport.scrollTop = 4000;
+    fireEvent.scroll(viewport);
+
+    rows = screen.getAllByText(/^User \d+$/);
+    expect(rows[0]).toHaveTextContent('User 96');
+    expect(rows[0].closest('tr')).toHaveAttribute('aria-rowindex', '97');
+    expect(rows[rows.length - 1]).toHaveTextContent('User 116');
+    expect(screen.queryByText('User 1')).not.toBeInTheDocument();
+  });
+
+  it('resizes columns by dragging, keyboard and double-click', () => {
+    const handleColumnResize = vi.fn();
+    const resizeColumns: Column<User>[] = [
+      { key: 'name', title: 'Name', dataIndex: 'name', width: 120, minWidth: 80, maxWidth: 200 },
+      { key: 'email', title: 'Email', dataIndex: 'email', resizable: false },
+    ];
+    render(
+      <DataTable
+        data={mockUsers}
+        columns={resizeColumns}
+        resizableColumns
+        defaultColumnWidths={{ name: 150 }}
+        onColumnResize={handleColumnResize}
+      />
+    );
+
+    expect(screen.getAllByRole('separator')).toHaveLength(1);
+    const handle = screen.getByRole('separator', { name: 'Resize Name' });
+    const nameHeader = screen.getByRole('columnheader', { name: /name/i });
+    expect(nameHeader).toHaveStyle({ width: '150px' });
+    expect(handle).toHaveAttribute('aria-valuenow', '150');
+
+    fireEvent.mouseDown(handle, { button: 0, clientX: 100 });
+    fireEvent.mouseMove(document, { clientX: 130 });
+    expect(nameHeader).toHaveStyle({ width: '180px' });
+    expect(handleColumnResize).not.toHaveBeenCalled();
+    fireEvent.mouseUp(document);
+    expect(handleColumnResize).toHaveBeenLastCalledWith('name', 180, { name: 180 });
+
+    // Keyboard steps are clamped to maxWidth
+    fireEvent.keyDown(handle, { key: 'ArrowRight', shiftKey: true });
+    expect(handleColumnResize).toHaveBeenLastCalledWith('name', 200, { name: 200 });
+    fireEvent.keyDown(handle, { key: 'ArrowLeft' });
+    expect(nameHeader).toHaveStyle({ width: '190px' });
+
+    // Resizing never toggles sorting, and auto-fit respects minWidth
+    fireEvent.doubleClick(handle);
+    expect(handleColumnResize).toHaveBeenLastCalledWith('name', 80, { name: 80 });
+  });
+
+  it('reorders columns with Alt+Arrow keys and drag-and-drop', () => {
+    const handleOrderChange = vi.fn();
+    render(
+      <DataTable
+        data={mockUsers}
+        columns={columns}
+        reorderableColumns
+        defaultColumnOrder={['age']}
+        onColumnOrderChange={handleOrderChange}
+      />
+    );
+    const headerOrder = () => screen.getAllByRole('columnheader').map(th => th.getAttribute('data-column-key'));
+
+    // Listed keys come first, the rest keep their order
+    expect(headerOrder()).toEqual(['age', 'name', 'email', 'active']);
+
+    const ageHeader = screen.getByRole('columnheader', { name: /age/i });
+    ageHeader.focus();
+    fireEvent.keyDown(ageHeader, { key: 'ArrowRight', altKey: true });
+    expect(handleOrderChange).toHaveBeenLastCalledWith(['name', 'age', 'email', 'active']);
+    expect(headerOrder()).toEqual(['name', 'age', 'email', 'active']);
+    expect(screen.getByRole('columnheader', { name: /age/i })).toHaveFocus();
+    expect(screen.getByText('Age moved to position 2 of 4')).toBeInTheDocument();
+    // Cells follow the header order
+    expect(screen.getByText('Alice').closest('tr')!.children[1]).toHaveTextContent('28');
+
+    const activeHeader = screen.getByRole('columnheader', { name: /active/i });
+    const nameHeader = screen.getByRole('columnheader', { name: /name/i });
+    fireEvent.dragStart(activeHeader, { dataTransfer: { setData: vi.fn(), effectAllowed: '' } });
+    // jsdom reports no pointer position, so the drop lands after the target
+    fireEvent.dragOver(nameHeader, { dataTransfer: { dropEffect: '' } });
+    expect(nameHeader.className).toContain('shadow-[inset_-3px_0_0_0_#3b82f6]');
+    fireEvent.drop(nameHeader, { dataTransfer: {} });
+    expect(headerOrder()).toEqual(['name', 'active', 'age', 'email']);
+  });
+
+  it('hides columns through the column chooser and pins fixed columns', () => {
+    const handleVisibilityChange = vi.fn();
+    render(
+      <DataTable
+        data={mockUsers}
+        columns={[
+          { ...columns[0], defaultHidden: true },
+          columns[1],
+          { ...columns[2], fixed: 'left' },
+          { ...columns[3], fixed: 'right' },
+        ]}
+        selectable
+        columnChooser
+        onColumnVisibilityChange={handleVisibilityChange}
+      />
+    );
+    const headerOrder = () => screen.getAllByRole('columnheader').map(th => th.getAttribute('data-column-key'));
+
+    // Pinned columns move to their edge; the selection column stays first and pinned
+    expect(headerOrder()).toEqual(['__selection__', 'age', 'email', 'active']);
+    expect(screen.getByRole('columnheader', { name: /age/i })).toHaveStyle({ position: 'sticky' });
+    expect(screen.getByRole('columnheader', { name: /active/i })).toHaveStyle({ position: 'sticky', right: '0px' });
+    expect(screen.getByText('alice@example.com').closest('tr')!.children[0]).toHaveStyle({ position: 'sticky', left: '0px' });
+    expect(screen.queryByText('Alice')).not.toBeInTheDocument();
+
+    fireEvent.click(screen.getByRole('button', { name: 'Columns' }));
+    fireEvent.click(screen.getByRole('checkbox', { name: 'Name' }));
+    expect(handleVisibilityChange).toHaveBeenLastCalledWith('name', true);
+    expect(headerOrder()).toEqual(['__selection__', 'age', 'name', 'email', 'active']);
+    expect(screen.getByText('Alice')).toBeInTheDocument();
+
+    fireEvent.click(screen.getByRole('checkbox', { name: 'Email' }));
+    expect(screen.queryByText('alice@example.com')).not.toBeInTheDocument();
+  });
+
+  it('keeps the header sticky inside a height-bounded scroll area', () => {
+    const handleSortChange = vi.fn();
+    const { container } = render(
+      <DataTable
+        data={mockUsers}
+        columns={columns}
+        scroll={{ x: 900, y: 240 }}
+        onSortChange={handleSortChange}
+      />
+    );
+    const table = screen.getByRole('table');
+
+    expect(table.parentElement).toHaveStyle({ maxHeight: '240px' });
+    expect(table.parentElement).toHaveClass('overflow-auto');
+    expect(table).toHaveStyle({ minWidth: '900px' });
+    expect(container.querySelector('thead')).toHaveClass('sticky', 'top-0');
+
+    fireEvent.click(screen.getByText('Age'));
+    expect(handleSortChange).toHaveBeenCalledWith([{ column: 'age', direction: 'asc' }]);
+  });
+
+  it('accepts maxHeight as a shorthand for scroll.y', () => {
+    render(<DataTable data={mockUsers} columns={columns} maxHeight="50vh" />);
+    expect(screen.getByRole('table').parentElement).toHaveStyle({ maxHeight: '50vh' });
+  });
+
+  it('renders detail rows lazily for expanded rows', () => {
+    const expandedRowRender = vi.fn((record: User) => <div>Details for {record.name}</div>);
+    const handleExpand = vi.fn();
+    const handleRowClick = vi.fn();
+    render(
+      <DataTable
+        data={mockUsers}
+        columns={columns}
+        selectable
+        onRowClick={handleRowClick}
+        expandable={{
+          expandedRowRender,
+          rowExpandable: (record) => record.active,
+          onExpand: handleExpand,
+        }}
+      />
+    );
+
+    // Nothing is rendered until a row is opened, and Bob's row has no toggle
+    expect(expandedRowRender).not.toHaveBeenCalled();
+    expect(screen.getAllByRole('button', { name: /expand row/i })).toHaveLength(2);
+
+    const toggle = screen.getByRole('button', { name: 'Expand row 1' });
+    expect(toggle).toHaveAttribute('aria-expanded', 'false');
+    fireEvent.click(toggle);
+
+    expect(handleExpand).toHaveBeenCalledWith(true, mockUsers[0]);
+    expect(handleRowClick).not.toHaveBeenCalled();
+    const collapse = screen.getByRole('button', { name: 'Collapse row 1' });
+    expect(collapse).toHaveAttribute('aria-expanded', 'true');
+    const detailCell = screen.getByText('Details for Alice').closest('td')!;
+    expect(detailCell).toHaveAttribute('colspan', '6');
+    // The detail row sits right beneath its parent row
+    expect(screen.getByText('Alice').closest('tr')!.nextElementSibling).toBe(detailCell.parentElement);
+    expect(detailCell.parentElement).toHaveAttribute('id', collapse.getAttribute('aria-controls'));
+
+    fireEvent.click(collapse);
+    expect(handleExpand).toHaveBeenLastCalledWith(false, mockUsers[0]);
+    expect(screen.queryByText('Details for Alice')).not.toBeInTheDocument();
+  });
+
+  it('supports controlled expanded rows', () => {
+    const handleExpandedRowsChange = vi.fn();
+    render(
+      <DataTable
+        data={mockUsers}
+        columns={columns}
+        expandable={{
+          expandedRowRender: (record) => `Details for ${record.name}`,
+          expandedRowKeys: [2],
+          onExpandedRowsChange: handleExpandedRowsChange,
+        }}
+      />
+    );
+
+    expect(screen.getByText('Details for Bob')).toBeInTheDocument();
+    fireEvent.click(screen.getByRole('button', { name: 'Expand row 1' }));
+    expect(handleExpandedRowsChange).toHaveBeenCalledWith([2, 1]);
+    // Still controlled by the parent
+    expect(screen.queryByText('Details for Alice')).not.toBeInTheDocument();
+  });
+
+  describe('tree data', () => {
+    type Unit = { id: string; name: string; size: number; children?: Unit[] };
+
+    const units: Unit[] = [
+      {
+        id: 'eng',
+        name: 'Engineering',
+        size: 12,
+        children: [
+          { id: 'web', name: 'Web', size: 5 },
+          { id: 'api', name: 'API', size: 7 },
+        ],
+      },
+      { id: 'ops', name: 'Operations', size: 4 },
+    ];
+
+    const unitColumns: Column<Unit>[] = [
+      { key: 'name', title: 'Name', dataIndex: 'name', sortable: true },
+      { key: 'size', title: 'Size', dataIndex: 'size', sortable: true, filter: { type: 'number' } },
+    ];
+
+    const rowNames = () =>
+      screen.getAllByRole('row').slice(1).map(row => row.querySelector('td[data-column-key="name"]')!.textContent);
+
+    it('expands child rows and sorts within each level', () => {
+      render(<DataTable data={units} columns={unitColumns} treeData />);
+
+      expect(rowNames()).toEqual(['Engineering', 'Operations']);
+      expect(screen.queryByRole('button', { name: 'Expand Operations' })).not.toBeInTheDocument();
+
+      const toggle = screen.getByRole('button', { name: 'Expand Engineering' });
+      expect(toggle).toHaveAttribute('aria-expanded', 'false');
+      fireEvent.click(toggle);
+
+      expect(screen.getByRole('button', { name: 'Collapse Engineering' })).toHaveAttribute('aria-expanded', 'true');
+      expect(rowNames()).toEqual(['Engineering', 'Web', 'API', 'Operations']);
+      expect(screen.getByText('Web').closest('tr')).toHaveAttribute('aria-level', '2');
+
+      // Children are sorted among themselves and stay under their parent
+      fireEvent.click(screen.getByText('Size'));
+      expect(rowNames()).toEqual(['Operations', 'Engineering', 'Web', 'API']);
+    });
+
+    it('counts expanded child rows in aria-rowcount when virtualized', () => {
+      render(
+        <DataTable data={units} columns={unitColumns} treeData defaultExpandedTreeKeys={['eng']} virtualized height={400} />
+      );
+
+      expect(screen.getByRole('table')).toHaveAttribute('aria-rowcount', '5');
+      const indexes = screen.getAllByRole('row').map(row => row.getAttribute('aria-rowindex'));
+      expect(indexes).toEqual(['1', '2', '3', '4', '5']);
+    });
+
+    it('keeps the ancestors of rows matching a filter', () => {
+      render(
+        <DataTable
+          data={units}
+          columns={unitColumns}
+          treeData
+          defaultExpandedTreeKeys={['eng']}
+          defaultFilters={{ size: { type: 'number', max: 6 } }}
+        />
+      );
+      expect(rowNames()).toEqual(['Engineering', 'Web', 'Operations']);
+    });
+
+    it('cascades selection to descendants and marks partially selected parents', () => {
+      const handleRowSelect = vi.fn();
+      render(
+        <DataTable
+          data={units}
+          columns={unitColumns}
+          treeData
+          selectable
+          defaultExpandedTreeKeys={['eng']}
+          onRowSelect={handleRowSelect}
+        />
+      );
+      const checkbox = (name: string) =>
+        screen.getByText(name).closest('tr')!.querySelector<HTMLInputElement>('input[type="checkbox"]')!;
+
+      fireEvent.click(checkbox('Web'));
+      expect(checkbox('Engineering').checked).toBe(false);
+      expect(checkbox('Engineering').indeterminate).toBe(true);
+
+      // Selecting the last child selects the parent too
+      fireEvent.click(checkbox('API'));
+      expect(checkbox('Engineering').checked).toBe(true);
+      expect(checkbox('Engineering').indeterminate).toBe(false);
+
+      fireEvent.click(checkbox('Engineering'));
+      expect(checkbox('Web').checked).toBe(false);
+      expect(checkbox('API').checked).toBe(false);
+
+      fireEvent.click(checkbox('Engineering'));
+      expect(handleRowSelect).toHaveBeenLastCalledWith(
+        expect.arrayContaining([units[0], units[0].children![0], units[0].children![1]]),
+        expect.arrayContaining(['eng', 'web', 'api'])
+      );
+    });
+
+    it('loads children lazily the first time a row is expanded', async () => {
+      const loadChildren = vi.fn(async (unit: Unit) => [{ id: `${unit.id}-sre`, name: 'SRE', size: 2 }]);
+      render(
+        <DataTable
+          data={[{ id: 'ops', name: 'Operations', size: 4 }]}
+          columns={unitColumns}
+          treeData
+          loadChildren={loadChildren}
+        />
+      );
+
+      fireEvent.click(screen.getByRole('button', { name: 'Expand Operations' }));
+      expect(screen.getByRole('button', { name: 'Expand Operations' })).toHaveAttribute('aria-busy', 'true');
+      expect(await screen.findByText('SRE')).toBeInTheDocument();
+      expect(loadChildren).toHaveBeenCalledTimes(1);
+
+      // Collapsing and expanding again reuses the loaded rows
+      fireEvent.click(screen.getByRole('button', { name: 'Collapse Operations' }));
+      fireEvent.click(screen.getByRole('button', { name: 'Expand Operations' }));
+      expect(screen.getByText('SRE')).toBeInTheDocument();
+      expect(loadChildren).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('row grouping', () => {
+    type Member = { id: number; name: string; team: string; salary: number };
+
+    const members: Member[] = [
+      { id: 1, name: 'Alice', team: 'Design', salary: 70 },
+      { id: 2, name: 'Bob', team: 'Engineering', salary: 90 },
+      { id: 3, name: 'Carol', team: 'Design', salary: 80 },
+      { id: 4, name: 'Dave', team: 'Engineering', salary: 110 },
+      { id: 5, name: 'Erin', team: 'Sales', salary: 60 },
+    ];
+
+    const memberColumns: Column<Member>[] = [
+      { key: 'name', title: 'Name', dataIndex: 'name', sortable: true },
+      { key: 'salary', title: 'Salary', dataIndex: 'salary', sortable: true },
+    ];
+
+    const bodyRows = () =>
+      screen.getAllByRole('row').slice(1).map(row =>
+        row.hasAttribute('data-group-row')
+          ? `# ${row.textContent}`
+          : row.querySelector('[data-column-key="name"]')!.textContent
+      );
+
+    it('renders collapsible group headers with counts and aggregates', () => {
+      render(
+        <DataTable
+          data={members}
+          columns={memberColumns}
+          groupBy={{ field: 'team', aggregates: { salary: 'avg' }, sort: 'desc' }}
+          defaultSort={[{ column: 'salary', direction: 'desc' }]}
+        />
+      );
+
+      // Groups follow their own order; rows keep the table sort inside each group
+      expect(bodyRows()).toEqual([
+        '# Sales(1)Avg60',
+        'Erin',
+        '# Engineering(2)Avg100',
+        'Dave',
+        'Bob',
+        '# Design(2)Avg75',
+        'Carol',
+        'Alice',
+      ]);
+
+      const toggle = screen.getByRole('button', { name: 'Collapse group Engineering' });
+      expect(toggle).toHaveAttribute('aria-expanded', 'true');
+      fireEvent.click(toggle);
+      expect(screen.getByRole('button', { name: 'Expand group Engineering' })).toHaveAttribute('aria-expanded', 'false');
+      expect(screen.queryByText('Dave')).not.toBeInTheDocument();
+      expect(screen.getByText('Erin')).toBeInTheDocument();
+    });
+
+    it('pages over groups or over flattened rows', () => {
+      const { rerender } = render(
+        <DataTable data={members} columns={memberColumns} groupBy="team" pagination pageSize={2} />
+      );
+      expect(bodyRows()).toEqual(['# Design(2)', 'Alice', 'Carol', '# Engineering(2)', 'Bob', 'Dave']);
+      expect(screen.getByText('Page 1 of 2')).toBeInTheDocument();
+
+      rerender(
+        <DataTable
+          data={members}
+          columns={memberColumns}
+          groupBy={{ field: 'team', paginateBy: 'rows' }}
+          pagination
+          pageSize={4}
+        />
+      );
+      expect(bodyRows()).toEqual(['# Design(2)', 'Alice', 'Carol', '# Engineering(2)']);
+      expect(screen.getByText('Page 1 of 2')).toBeInTheDocument();
+    });
+
+    it('stays in range when collapsing groups leaves fewer pages', () => {
+      const renderTable = (collapsedGroups: string[]) => (
+        <DataTable
+          data={members}
+          columns={memberColumns}
+          groupBy={{ field: 'team', paginateBy: 'rows', collapsedGroups }}
+          pagination
+          pageSize={3}
+          defaultPage={3}
+        />
+      );
+      const { rerender } = render(renderTable([]));
+      expect(bodyRows()).toEqual(['# Sales(1)', 'Erin']);
+
+      rerender(renderTable(['Design', 'Engineering']));
+      expect(bodyRows()).toEqual(['Erin']);
+      expect(screen.getByText('Page 2 of 2')).toBeInTheDocument();
+    });
+
+    it('counts group headers and the summary row in aria-rowcount when virtualized', () => {
+      render(
+        <DataTable
+          data={members}
+          columns={[memberColumns[0], { ...memberColumns[1], aggregate: 'sum' }]}
+          groupBy="team"
+          virtualized
+          height={600}
+        />
+      );
+
+      // Header, 3 group headers, 5 members and the summary row
+      expect(screen.getByRole('table')).toHaveAttribute('aria-rowcount', '10');
+      const indexes = screen.getAllByRole('row').map(row => Number(row.getAttribute('aria-rowindex')));
+      expect(indexes).toEqual([1, 2, 3, 4, 5, 6, 7, 8, 9, 10]);
+    });
+  });
+
+  it('clamps the page when data shrinks', () => {
+    const { rerender } = render(<DataTable data={mockUsers} columns={columns} pagination pageSize={1} defaultPage={3} />);
+    expect(screen.getByText('Carol')).toBeInTheDocument();
+
+    rerender(<DataTable data={mockUsers.slice(0, 2)} columns={columns} pagination pageSize={1} defaultPage={3} />);
+    expect(screen.getByText('Bob')).toBeInTheDocument();
+    expect(screen.getByText('Page 2 of 2')).toBeInTheDocument();
+  });
+
+  it('reports the clamped page to a parent that controls it', () => {
+    const onPageChange = vi.fn();
+    const { rerender } = render(
+      <DataTable data={mockUsers} columns={columns} pagination pageSize={1} page={3} onPageChange={onPageChange} />
+    );
+    expect(onPageChange).not.toHaveBeenCalled();
+
+    rerender(
+      <DataTable data={mockUsers.slice(0, 2)} columns={columns} pagination pageSize={1} page={3} onPageChange={onPageChange} />
+    );
+    expect(onPageChange).toHaveBeenCalledWith(2);
+    expect(screen.getByText('Page 2 of 2')).toBeInTheDocument();
+
+    // Nothing to report while rows are loading
+    onPageChange.mockClear();
+    rerender(<DataTable data={[]} columns={columns} pagination pageSize={1} page={2} onPageChange={onPageChange} loading />);
+    expect(onPageChange).not.toHaveBeenCalled();
+  });
+
+  it('renders a summary row over all rows, the page or the selection', () => {
+    const summaryColumns: Column<User>[] = [
+      columns[0],
+      { ...columns[2], aggregate: 'avg' },
+      {
+        ...columns[3],
+        aggregate: (rows) => rows.filter(row => row.active).length,
+        aggregateRender: (value) => `${value} active`,
+      },
+    ];
+    const summaryCell = (key: string) =>
+      screen.getByRole('table').querySelector(`tfoot [data-column-key="${key}"]`)!;
+
+    const { rerender } = render(<DataTable data={mockUsers} columns={summaryColumns} />);
+    expect(summaryCell('name')).toHaveTextContent('Total');
+    expect(summaryCell('age')).toHaveTextContent('Avg28');
+    expect(summaryCell('active')).toHaveTextContent('2 active');
+
+    rerender(<DataTable data={mockUsers} columns={summaryColumns} summaryScope="page" pagination pageSize={2} />);
+    expect(summaryCell('name')).toHaveTextContent('Page total');
+    expect(summaryCell('age')).toHaveTextContent('Avg30');
+    expect(summaryCell('active')).toHaveTextContent('1 active');
+
+    // Remount so the default selection applies
+    rerender(
+      <DataTable
+        key="selection"
+        data={mockUsers}
+        columns={summaryColumns}
+        summaryScope="selection"
+        selectable
+        defaultSelectedRowKeys={[3]}
+      />
+    );
+    expect(summaryCell('name')).toHaveTextContent('Selected');
+    expect(summaryCell('age')).toHaveTextContent('Avg24');
+    fireEvent.click(screen.getByLabelText('Select row 2'));
+    expect(summaryCell('age')).toHaveTextContent('Avg28');
+    expect(summaryCell('active')).toHaveTextContent('1 active');
+  });
+
+  describe('cell editing', () => {
+    const editableColumns: Column<User>[] = [
+      { ...columns[0], editable: true, validate: (value) => (String(value).trim() ? undefined : 'Name is required') },
+      { ...columns[2], editable: true },
+      { ...columns[3], editable: true },
+    ];
+    const cell = (row: number, key: string) =>
+      screen.getAllByRole('row')[row].querySelector<HTMLElement>(`[data-column-key="${key}"]`)!;
+
+    it('edits cells with Enter, Escape and Tab and keeps invalid values open', () => {
+      const onCellEdit = vi.fn();
+      render(<DataTable data={mockUsers} columns={editableColumns} onCellEdit={onCellEdit} />);
+
+      fireEvent.doubleClick(cell(1, 'name'));
+      const input = screen.getByLabelText('Edit Name');
+      expect(input).toHaveFocus();
+      fireEvent.change(input, { target: { value: ' ' } });
+      fireEvent.keyDown(input, { key: 'Enter' });
+      expect(screen.getByText('Name is required')).toBeInTheDocument();
+      expect(input).toHaveAttribute('aria-invalid', 'true');
+      expect(onCellEdit).not.toHaveBeenCalled();
+
+      fireEvent.keyDown(input, { key: 'Escape' });
+      expect(screen.queryByLabelText('Edit Name')).not.toBeInTheDocument();
+      expect(cell(1, 'name')).toHaveTextContent('Alice');
+      expect(cell(1, 'name')).toHaveFocus();
+
+      // Tab saves and moves on to the next editable cell, a number input
+      fireEvent.keyDown(cell(1, 'name'), { key: 'Enter' });
+      fireEvent.change(screen.getByLabelText('Edit Name'), { target: { value: 'Alicia' } });
+      fireEvent.keyDown(screen.getByLabelText('Edit Name'), { key: 'Tab' });
+      expect(onCellEdit).toHaveBeenLastCalledWith(mockUsers[0], 'name', 'Alicia');
+      const age = screen.getByLabelText('Edit Age');
+      expect(age).toHaveAttribute('type', 'number');
+      fireEvent.change(age, { target: { value: '29' } });
+      fireEvent.keyDown(age, { key: 'Tab' });
+      expect(onCellEdit).toHaveBeenLastCalledWith(mockUsers[0], 'age', 29);
+
+      // Booleans get a checkbox
+      const active = screen.getByLabelText('Edit Active');
+      expect(active).toHaveAttribute('type', 'checkbox');
+      fireEvent.click(active);
+      fireEvent.keyDown(active, { key: 'Enter' });
+      expect(onCellEdit).toHaveBeenLastCalledWith(mockUsers[0], 'active', false);
+      expect(onCellEdit).toHaveBeenCalledTimes(3);
+    });
+
+    it('shows saves optimistically and rolls back rejected ones', async () => {
+      let reject: (reason: Error) => void = () => {};
+      const onCellEdit = vi.fn(() => new Promise((_, fail) => (reject = fail)));
+      const enumColumns: Column<User>[] = [
+        columns[0],
+        { ...columns[2], editable: { type: 'select', options: [24, 28, 32].map(value => ({ label: `${value} years`, value })) } },
+      ];
+      render(<DataTable data={mockUsers} columns={enumColumns} onCellEdit={onCellEdit} />);
+
+      fireEvent.doubleClick(cell(1, 'age'));
+      const select = screen.getByLabelText('Edit Age');
+      expect(select).toHaveDisplayValue('28 years');
+      fireEvent.change(select, { target: { value: '2' } });
+      fireEvent.keyDown(select, { key: 'Enter' });
+      expect(onCellEdit).toHaveBeenCalledWith(mockUsers[0], 'age', 32);
+      expect(cell(1, 'age')).toHaveTextContent('32');
+      expect(cell(1, 'age')).toHaveAttribute('aria-busy', 'true');
+
+      await act(async () => reject(new Error('Save failed')));
+      expect(cell(1, 'age')).toHaveTextContent('28');
+      expect(cell(1, 'age')).not.toHaveAttribute('aria-busy');
+    });
+  });
+
+  describe('row editing', () => {
+    const rowColumns: Column<User>[] = [
+      { ...columns[0], editable: true },
+      { ...columns[1], editable: true, validate: (value) => (String(value).includes('@') ? undefined : 'Invalid email') },
+      { ...columns[2], editable: true },
+    ];
+    const cell = (row: number, key: string) =>
+      screen.getAllByRole('row')[row].querySelector<HTMLElement>(`[data-column-key="${key}"]`)!;
+
+    it('edits all editable columns of a row with row-level validation', () => {
+      const onSave = vi.fn();
+      render(
+        <DataTable
+          data={mockUsers}
+          columns={rowColumns}
+          rowEditing={{
+            onSave,
+            validate: (values) =>
+              values.age < 30 && values.name.startsWith('A') ? { name: 'Too young for an A', age: 'Must be 30+' } : null,
+          }}
+        />
+      );
+
+      fireEvent.click(screen.getByLabelText('Edit row 1'));
+      expect(screen.getByLabelText('Edit Name')).toHaveFocus();
+      expect(screen.getByLabelText('Edit Email')).toHaveValue('alice@example.com');
+      expect(screen.getByLabelText('Edit row 2')).toBeDisabled();
+      // Nothing to save until a field changes
+      expect(screen.getByLabelText('Save row 1')).toBeDisabled();
+      fireEvent.keyDown(screen.getByLabelText('Edit Name'), { key: 'Enter' });
+      expect(screen.queryByText('Must be 30+')).not.toBeInTheDocument();
+
+      fireEvent.change(screen.getByLabelText('Edit Email'), { target: { value: 'alice' } });
+      expect(cell(1, 'email')).toHaveAttribute('data-dirty', 'true');
+      fireEvent.click(screen.getByLabelText('Save row 1'));
+      expect(screen.getByText('Invalid email')).toBeInTheDocument();
+      expect(screen.getByText('Too young for an A')).toBeInTheDocument();
+      expect(screen.getByText('Must be 30+')).toBeInTheDocument();
+      expect(screen.getByLabelText('Edit Age')).toHaveAttribute('aria-invalid', 'true');
+      expect(onSave).not.toHaveBeenCalled();
+
+      fireEvent.change(screen.getByLabelText('Edit Email'), { target: { value: 'alicia@example.com' } });
+      fireEvent.change(screen.getByLabelText('Edit Age'), { target: { value: '31' } });
+      fireEvent.keyDown(screen.getByLabelText('Edit Age'), { key: 'Enter' });
+      expect(onSave).toHaveBeenCalledTimes(1);
+      expect(onSave).toHaveBeenCalledWith(mockUsers[0], { email: 'alicia@example.com', age: 31 });
+      expect(screen.queryByLabelText('Edit Name')).not.toBeInTheDocument();
+    });
+
+    it('keeps drafts when saving fails and discards them on cancel', async () => {
+      const onCancel = vi.fn();
+      render(
+        <DataTable
+          data={mockUsers}
+          columns={rowColumns}
+          rowEditing={{ onSave: () => Promise.reject(new Error('Server unavailable')), onCancel }}
+        />
+      );
+
+      fireEvent.click(screen.getByLabelText('Edit row 2'));
+      fireEvent.change(screen.getByLabelText('Edit Name'), { target: { value: 'Robert' } });
+      await act(async () => {
+        fireEvent.click(screen.getByLabelText('Save row 2'));
+      });
+      expect(screen.getByRole('alert')).toHaveTextContent('Server unavailable');
+      expect(screen.getByLabelText('Edit Name')).toHaveValue('Robert');
+
+      fireEvent.keyDown(screen.getByLabelText('Edit Name'), { key: 'Escape' });
+      expect(onCancel).toHaveBeenCalledWith(mockUsers[1]);
+      expect(cell(2, 'name')).toHaveTextContent('Bob');
+      expect(screen.getByLabelText('Edit row 2')).toHaveFocus();
+    });
+
+    it('pins the actions column after right-pinned columns', () => {
+      const rect = vi.spyOn(HTMLElement.prototype, 'getBoundingClientRect').mockImplementation(function (this: HTMLElement) {
+        return new DOMRect(0, 0, this.dataset.columnKey === '__actions__' ? 120 : 100, 40);
+      });
+      render(
+        <DataTable
+          data={mockUsers}
+          columns={[rowColumns[0], { ...rowColumns[1], fixed: 'right' }, { ...rowColumns[2], fixed: 'right' }]}
+          rowEditing={{ onSave: vi.fn() }}
+        />
+      );
+
+      expect(screen.getByRole('columnheader', { name: /age/i })).toHaveStyle({ position: 'sticky', right: '120px' });
+      expect(screen.getByRole('columnheader', { name: /email/i })).toHaveStyle({ position: 'sticky', right: '220px' });
+      expect(cell(1, '__actions__')).toHaveStyle({ position: 'sticky', right: '0px' });
+      rect.mockRestore();
+    });
+
+    it('shows errors thrown while validating or saving and stays in edit mode', async () => {
+      const onSave = vi.fn(() => {
+        throw new Error('Read-only record');
+      });
+      const nameColumn: Column<User> = {
+        ...columns[0],
+        editable: true,
+        validate: (value) => {
+          if (value === '') throw new Error('Validator crashed');
+          return undefined;
+        },
+      };
+      render(<DataTable data={mockUsers} columns={[nameColumn]} rowEditing={{ onSave }} />);
+
+      fireEvent.click(screen.getByLabelText('Edit row 1'));
+      fireEvent.change(screen.getByLabelText('Edit Name'), { target: { value: '' } });
+      await act(async () => {
+        fireEvent.keyDown(screen.getByLabelText('Edit Name'), { key: 'Enter' });
+      });
+      expect(screen.getByRole('alert')).toHaveTextContent('Validator crashed');
+      expect(onSave).not.toHaveBeenCalled();
+
+      fireEvent.change(screen.getByLabelText('Edit Name'), { target: { value: 'Alicia' } });
+      await act(async () => {
+        fireEvent.click(screen.getByLabelText('Save row 1'));
+      });
+      expect(screen.getByRole('alert')).toHaveTextContent('Read-only record');
+      expect(screen.getByLabelText('Edit Name')).toHaveValue('Alicia');
+    });
+  });
+
+  describe('keyboard navigation', () => {
+    const cell = (row: number, key: string) =>
+      screen.getAllByRole('row')[row].querySelector<HTMLElement>(`[data-column-key="${key}"]`)!;
+
+    it('moves a single tab stop between cells with arrows, Home/End and PageUp/PageDown', () => {
+      render(<DataTable data={mockUsers} columns={columns} keyboardNavigation selectable />);
+      const grid = screen.getByRole('grid');
+      expect(grid).toHaveAttribute('aria-multiselectable', 'true');
+      // The first body cell is the only tab stop; checkboxes leave the tab sequence
+      expect(grid.querySelectorAll('[tabindex="0"]')).toHaveLength(1);
+      expect(cell(1, '__selection__')).toHaveAttribute('tabindex', '0');
+      expect(screen.getByLabelText('Select row 1')).toHaveAttribute('tabindex', '-1');
+
+      act(() => cell(1, '__selection__').focus());
+      fireEvent.keyDown(document.activeElement!, { key: 'ArrowRight' });
+      expect(cell(1, 'name')).toHaveFocus();
+      expect(cell(1, 'name')).toHaveAttribute('tabindex', '0');
+      expect(cell(1, '__selection__')).toHaveAttribute('tabindex', '-1');
+      fireEvent.keyDown(document.activeElement!, { key: 'ArrowDown' });
+      expect(cell(2, 'name')).toHaveFocus();
+      fireEvent.keyDown(document.activeElement!, { key: 'End' });
+      expect(cell(2, 'active')).toHaveFocus();
+      fireEvent.keyDown(document.activeElement!, { key: 'Home' });
+      expect(cell(2, '__selection__')).toHaveFocus();
+      fireEvent.keyDown(document.activeElement!, { key: 'PageDown' });
+      expect(cell(3, '__selection__')).toHaveFocus();
+      fireEvent.keyDown(document.activeElement!, { key: 'PageUp' });
+      expect(cell(0, '__selection__')).toHaveFocus();
+      fireEvent.keyDown(document.activeElement!, { key: 'End', ctrlKey: true });
+      expect(cell(3, 'active')).toHaveFocus();
+      // Moves stop at the edges
+      fireEvent.keyDown(document.activeElement!, { key: 'ArrowRight' });
+      fireEvent.keyDown(document.activeElement!, { key: 'ArrowDown' });
+      expect(cell(3, 'active')).toHaveFocus();
+    });
+
+    it('activates rows with Enter, toggles selection with Space and sorts from the header', () => {
+      const onRowClick = vi.fn();
+      const onSelectedRowKeysChange = vi.fn();
+      render(
+        <DataTable
+          data={mockUsers}
+          columns={columns}
+          keyboardNavigation
+          selectable
+          onRowClick={onRowClick}
+          onSelectedRowKeysChange={onSelectedRowKeysChange}
+        />
+      );
+
+      act(() => cell(2, 'email').focus());
+      fireEvent.keyDown(cell(2, 'email'), { key: 'Enter' });
+      expect(onRowClick).toHaveBeenCalledWith(mockUsers[1], 1);
+      fireEvent.keyDown(cell(2, 'email'), { key: ' ' });
+      expect(onSelectedRowKeysChange).toHaveBeenLastCalledWith([2]);
+      expect(screen.getAllByRole('row')[2]).toHaveAttribute('aria-selected', 'true');
+
+      // Sorting keeps focus on the header cell
+      fireEvent.keyDown(cell(2, 'email'), { key: 'ArrowUp' });
+      fireEvent.keyDown(cell(1, 'email'), { key: 'ArrowUp' });
+      expect(cell(0, 'email')).toHaveFocus();
+      fireEvent.keyDown(cell(0, 'email'), { key: 'Enter' });
+      fireEvent.keyDown(cell(0, 'email'), { key: 'Enter' });
+      expect(cell(0, 'email')).toHaveAttribute('aria-sort', 'descending');
+      expect(cell(0, 'email')).toHaveFocus();
+      expect(cell(1, 'name')).toHaveTextContent('Carol');
+    });
+
+    it('restores focus to the same column when the focused row leaves the page', () => {
+      const { rerender } = render(
+        <DataTable data={mockUsers} columns={columns} keyboardNavigation mode="server" totalCount={6} />
+      );
+      act(() => cell(2, 'age').focus());
+      expect(cell(2, 'age')).toHaveFocus();
+
+      const nextPage = mockUsers.map(user => ({ ...user, id: user.id + 3, name: `${user.name} II` }));
+      rerender(<DataTable data={nextPage} columns={columns} keyboardNavigation mode="server" totalCount={6} />);
+      expect(cell(1, 'name')).toHaveTextContent('Alice II');
+      expect(cell(1, 'age')).toHaveFocus();
+      expect(cell(1, 'age')).toHaveAttribute('tabindex', '0');
+    });
+  });
+
+  describe('selection across pages', () => {
+    const people: User[] = Array.from({ length: 7 }, (_, i) => ({
+      id: i + 1,
+      name: `Person ${i + 1}`,
+      email: `person${i + 1}@example.com`,
+      age: 20 + i,
+      active: i % 2 === 0,
+    }));
+
+    it('selects ranges with shift-click and keeps selection across pages and sorts', () => {
+      const onRowSelect = vi.fn();
+      render(<DataTable data={people} columns={columns} selectable pagination pageSize={3} onRowSelect={onRowSelect} />);
+
+      fireEvent.click(screen.getByLabelText('Select row 1'));
+      fireEvent.click(screen.getByLabelText('Select row 3'), { shiftKey: true });
+      expect(onRowSelect).toHaveBeenLastCalledWith(people.slice(0, 3), [1, 2, 3]);
+
+      // Ranges continue from the anchor onto other pages
+      fireEvent.click(screen.getByText('Next'));
+      fireEvent.click(screen.getByLabelText('Select row 2'), { shiftKey: true });
+      expect(onRowSelect).toHaveBeenLastCalledWith(people.slice(0, 5), [1, 2, 3, 4, 5]);
+      expect(screen.getByLabelText('Select all rows')).toHaveProperty('indeterminate', true);
+
+      // Unselecting a page keeps the rows selected elsewhere
+      fireEvent.click(screen.getByLabelText('Select all rows'));
+      fireEvent.click(screen.getByLabelText('Select all rows'));
+      expect(onRowSelect).toHaveBeenLastCalledWith(people.slice(0, 3), [1, 2, 3]);
+
+      // Sorting descending puts Person 4, 3 and 2 on this page
+      fireEvent.click(screen.getByText('Age'));
+      fireEvent.click(screen.getByText('Age'));
+      expect(screen.getByLabelText('Select row 1').closest('tr')).toHaveTextContent('Person 4');
+      expect(screen.getByLabelText('Select row 1')).not.toBeChecked();
+      expect(screen.getByLabelText('Select row 2')).toBeChecked();
+      expect(screen.getByLabelText('Select row 3')).toBeChecked();
+    });
+
+    it('reports records of rows selected by the parent on earlier server pages', () => {
+      const onRowSelect = vi.fn();
+      const renderPage = (rows: User[]) => (
+        <DataTable
+          data={rows}
+          columns={columns}
+          mode="server"
+          selectable
+          selectedRowKeys={[1, 2]}
+          onRowSelect={onRowSelect}
+        />
+      );
+      const { rerender } = render(renderPage(people.slice(0, 3)));
+      rerender(renderPage(people.slice(3, 6)));
+
+      fireEvent.click(screen.getByLabelText('Select row 1'));
+      expect(onRowSelect).toHaveBeenLastCalledWith([people[0], people[1], people[3]], [1, 2, 4]);
+    });
+
+    it('offers to select all results after selecting a page', () => {
+      const onRowSelect = vi.fn();
+      render(<DataTable data={people} columns={columns} selectable pagination pageSize={3} onRowSelect={onRowSelect} />);
+
+      fireEvent.click(screen.getByLabelText('Select all rows'));
+      expect(screen.getByRole('status')).toHaveTextContent('All 3 rows on this page are selected.');
+      fireEvent.click(screen.getByRole('button', { name: 'Select all 7 results' }));
+      expect(onRowSelect).toHaveBeenLastCalledWith(people, [1, 2, 3, 4, 5, 6, 7]);
+      expect(screen.getByRole('status')).toHaveTextContent('All 7 results are selected.');
+
+      fireEvent.click(screen.getByRole('button', { name: 'Clear selection' }));
+      expect(onRowSelect).toHaveBeenLastCalledWith([], []);
+      expect(screen.queryByRole('status')).not.toBeInTheDocument();
+    });
+  });
+
+  describe('selection modes', () => {
+    it('selects a single row with radio buttons', () => {
+      const onRowSelect = vi.fn();
+      render(<DataTable data={mockUsers} columns={columns} selectable selectionMode="single" onRowSelect={onRowSelect} />);
+
+      expect(screen.queryByLabelText('Select all rows')).not.toBeInTheDocument();
+      fireEvent.click(screen.getByLabelText('Select row 1'));
+      fireEvent.click(screen.getByLabelText('Select row 3'));
+      expect(onRowSelect).toHaveBeenLastCalledWith([mockUsers[2]], [3]);
+      expect(screen.getByLabelText('Select row 1')).not.toBeChecked();
+      expect(screen.getByLabelText('Select row 3')).toHaveAttribute('type', 'radio');
+      expect(screen.getByLabelText('Select row 3')).toBeChecked();
+    });
+
+    it('skips locked rows and stops at the selection cap', () => {
+      const onRowSelect = vi.fn();
+      const users = [...mockUsers, { id: 4, name: 'Dave', email: 'dave@example.com', age: 41, active: true }];
+      render(
+        <DataTable
+          data={users}
+          columns={columns}
+          selectable
+          isRowSelectable={(record) => record.active}
+          maxSelection={2}
+          onRowSelect={onRowSelect}
+        />
+      );
+
+      expect(screen.getByLabelText('Select row 2')).toBeDisabled();
+      fireEvent.click(screen.getByLabelText('Select all rows'));
+      expect(onRowSelect).toHaveBeenLastCalledWith([users[0], users[2]], [1, 3]);
+      expect(screen.getByLabelText('Select row 4')).toBeDisabled();
+      expect(screen.getByLabelText('Select row 4')).toHaveAttribute('title', 'Selection limit of 2 reached');
+      expect(screen.getByLabelText('Select all rows')).toHaveProperty('indeterminate', true);
+
+      // Once a selected row is dropped, the header selects only unlocked rows
+      fireEvent.click(screen.getByLabelText('Select row 1'));
+      fireEvent.click(screen.getByLabelText('Select row 4'));
+      fireEvent.click(screen.getByLabelText('Select row 1'));
+      expect(onRowSelect).toHaveBeenLastCalledWith([users[2], users[3]], [3, 4]);
+      expect(screen.getByLabelText('Select row 1')).toBeDisabled();
+    });
+
+    it('counts only selectable rows for the header checkbox', () => {
+      const onRowSelect = vi.fn();
+      render(
+        <DataTable
+          data={mockUsers}
+          columns={columns}
+          selectable
+          isRowSelectable={(record) => record.id !== 2}
+          onRowSelect={onRowSelect}
+        />
+      );
+
+      fireEvent.click(screen.getByLabelText('Select row 1'));
+      fireEvent.click(screen.getByLabelText('Select row 3'));
+      expect(screen.getByLabelText('Select all rows')).toBeChecked();
+      expect(screen.getByLabelText('Select all rows')).toHaveProperty('indeterminate', false);
+
+      fireEvent.click(screen.getByLabelText('Select all rows'));
+      expect(onRowSelect).toHaveBeenLastCalledWith([], []);
+    });
+    it('keeps locked rows selected when the header checkbox clears the page', () => {
+      const onSelectedRowKeysChange = vi.fn();
+      render(
+        <DataTable
+          data={mockUsers}
+          columns={columns}
+          selectable
+          isRowSelectable={(record) => record.id !== 2}
+          defaultSelectedRowKeys={[1, 2, 3]}
+          onSelectedRowKeysChange={onSelectedRowKeysChange}
+        />
+      );
+
+      expect(screen.getByLabelText('Select all rows')).toBeChecked();
+      fireEvent.click(screen.getByLabelText('Select all rows'));
+      expect(onSelectedRowKeysChange).toHaveBeenLastCalledWith([2]);
+      expect(screen.getByLabelText('Select row 2')).toBeChecked();
+    });
+  });
+
+  describe('toolbar export', () => {
+    // jsdom's Blob has no text()
+    const readBlob = (blob: Blob) =>
+      new Promise<string>(resolve => {
+        const reader = new FileReader();
+        reader.onload = () => resolve(reader.result as string);
+        reader.readAsText(blob);
+      });
+
+    // jsdom has no object URLs, so they are defined before being spied on
+    const mockDownloads = () => {
+      URL.createObjectURL ??= () => '';
+      URL.revokeObjectURL ??= () => {};
+      const createObjectURL = vi.spyOn(URL, 'createObjectURL').mockReturnValue('blob:export');
+      vi.spyOn(URL, 'revokeObjectURL').mockImplementation(() => {});
+      return {
+        click: vi.spyOn(HTMLAnchorElement.prototype, 'click').mockImplementation(() => {}),
+        /** Text of the nth downloaded file */
+        downloaded: (index: number) => readBlob(createObjectURL.mock.calls[index][0] as Blob),
+      };
+    };
+
+    afterEach(() => {
+      vi.restoreAllMocks();
+    });
+
+    it('downloads the sorted view of visible exportable columns from the toolbar', async () => {
+      const { click, downloaded } = mockDownloads();
+
+      render(
+        <DataTable
+          data={mockUsers}
+          columns={[...columns.slice(0, 2), { ...columns[2], hidden: true }, { ...columns[3], exportable: false }]}
+          selectable
+          pagination
+          pageSize={2}
+          defaultSort={[{ column: 'name', direction: 'desc' }]}
+          exportable={{ filename: 'users' }}
+        />
+      );
+      fireEvent.click(screen.getByLabelText('Select row 1'));
+      fireEvent.click(screen.getByRole('button', { name: 'Export' }));
+      fireEvent.click(screen.getByRole('button', { name: 'Download CSV' }));
+
+      expect(await downloaded(0)).toBe(
+        'Name,Email\r\nCarol,carol@example.com\r\nBob,bob@example.com\r\nAlice,alice@example.com\r\n'
+      );
+      expect((click.mock.contexts[0] as HTMLAnchorElement).download).toBe('users.csv');
+
+      fireEvent.click(screen.getByRole('button', { name: 'Export' }));
+      fireEvent.click(screen.getByLabelText('Selected rows (1)'));
+      fireEvent.click(screen.getByRole('button', { name: 'Download CSV' }));
+      expect(await downloaded(1)).toBe('Name,Email\r\nCarol,carol@example.com\r\n');
+    });
+
+    it('exports group and summary rows from the toolbar as JSON and NDJSON', async () => {
+      const { click, downloaded } = mockDownloads();
+
+      render(
+        <DataTable
+          data={mockUsers}
+          columns={[columns[0], { ...columns[2], aggregate: 'sum' }, columns[3]]}
+          groupBy={{ field: 'active', aggregates: { age: 'max' } }}
+          exportable={{ formats: ['json', 'ndjson'] }}
+        />
+      );
+      fireEvent.click(screen.getByRole('button', { name: 'Export' }));
+      expect(screen.queryByRole('button', { name: 'Download CSV' })).not.toBeInTheDocument();
+      fireEvent.click(screen.getByRole('button', { name: 'Download JSON' }));
+
+      expect(JSON.parse(await downloaded(0))).toEqual([
+        { $rowType: 'group', Name: 'false (1)', Age: 32, Active: null },
+        { Name: 'Bob', Age: 32, Active: false },
+        { $rowType: 'group', Name: 'true (2)', Age: 28, Active: null },
+        { Name: 'Alice', Age: 28, Active: true },
+        { Name: 'Carol', Age: 24, Active: true },
+        { $rowType: 'summary', Name: 'Total', Age: 84, Active: null },
+      ]);
+      expect((click.mock.contexts[0] as HTMLAnchorElement).download).toBe('export.json');
+
+      fireEvent.click(screen.getByRole('button', { name: 'Export' }));
+      fireEvent.click(screen.getByRole('button', { name: 'Download NDJSON' }));
+      const lines = (await downloaded(1)).split('\n');
+      expect(lines).toHaveLength(7);
+      expect(JSON.parse(lines[1])).toEqual({ Name: 'Bob', Age: 32, Active: false });
+    });
+  });
+
+  describe('cell range clipboard', () => {
+    const cell = (row: number, key: string) =>
+      screen.getAllByRole('row')[row].querySelector<HTMLElement>(`[data-column-key="${key}"]`)!;
+    const rangeCells = () => document.querySelectorAll('[data-range-selected]');
+
+    it('selects cells by dragging and Shift+Arrow keys and copies them as TSV and HTML', () => {
+      render(<DataTable data={mockUsers} columns={columns} cellSelection />);
+
+      fireEvent.mouseDown(cell(1, 'name'));
+      fireEvent.mouseEnter(cell(2, 'email'));
+      fireEvent.mouseUp(document);
+      fireEvent.mouseEnter(cell(3, 'age'));
+      expect(rangeCells()).toHaveLength(4);
+
+      const setData = vi.fn();
+      fireEvent.copy(cell(1, 'name'), { clipboardData: { setData } });
+      expect(setData).toHaveBeenCalledWith('text/plain', 'Alice\talice@example.com\r\nBob\tbob@example.com\r\n');
+      expect(setData).toHaveBeenCalledWith(
+        'text/html',
+        '<table><tbody><tr><td>Alice</td><td>alice@example.com</td></tr><tr><td>Bob</td><td>bob@example.com</td></tr></tbody></table>'
+      );
+
+      fireEvent.keyDown(cell(1, 'name'), { key: 'ArrowDown', shiftKey: true });
+      fireEvent.keyDown(cell(1, 'name'), { key: 'ArrowRight', shiftKey: true });
+      expect(rangeCells()).toHaveLength(9);
+      expect(cell(3, 'age')).toHaveAttribute('data-range-selected');
+
+      fireEvent.keyDown(cell(1, 'name'), { key: 'Escape' });
+      expect(rangeCells()).toHaveLength(0);
+    });
+
+    it('pastes grids onto editable columns and skips invalid values', () => {
+      const onPaste = vi.fn();
+      const editableColumns: Column<User>[] = [
+        { ...columns[0], editable: true, validate: (value) => (String(value).trim() ? undefined : 'Name is required') },
+        columns[1],
+        { ...columns[2], editable: true },
+        { ...columns[3], editable: true },
+      ];
+      render(<DataTable data={mockUsers} columns={editableColumns} cellSelection onPaste={onPaste} />);
+
+      // Unchanged read-only cells pass silently; changed ones are skipped and marked
+      fireEvent.mouseDown(cell(1, 'name'));
+      fireEvent.paste(cell(1, 'name'), {
+        clipboardData: { getData: () => 'Alicia\talice@example.com\t1,029\r\n\tbob@example.org\tabc\r\n' },
+      });
+      expect(onPaste).toHaveBeenCalledWith([
+        { record: mockUsers[0], key: 'name', value: 'Alicia' },
+        { record: mockUsers[0], key: 'age', value: 1029 },
+      ]);
+      expect(cell(1, 'email')).not.toHaveAttribute('data-paste-error');
+      expect(cell(2, 'name')).toHaveAttribute('data-paste-error', 'Name is required');
+      expect(cell(2, 'email')).toHaveAttribute('data-paste-error', 'This column is read-only');
+      expect(cell(2, 'age')).toHaveAttribute('data-paste-error', 'Enter a number');
+      expect(screen.getByRole('alert')).toHaveTextContent('3 pasted values were skipped: invalid or read-only.');
+      expect(rangeCells()).toHaveLength(6);
+
+      // A single value fills the whole range
+      onPaste.mockClear();
+      fireEvent.mouseDown(cell(1, 'age'));
+      fireEvent.mouseDown(cell(3, 'age'), { shiftKey: true });
+      fireEvent.paste(cell(1, 'age'), { clipboardData: { getData: () => '40' } });
+      expect(onPaste).toHaveBeenCalledWith(mockUsers.map(record => ({ record, key: 'age', value: 40 })));
+      expect(screen.queryByRole('alert')).not.toBeInTheDocument();
+    });
+
+    it('pastes a copied range with a read-only column back into the same columns', () => {
+      const onPaste = vi.fn();
+      const editableColumns: Column<User>[] = [
+        { ...columns[0], editable: true },
+        columns[1],
+        { ...columns[2], editable: true },
+      ];
+      render(<DataTable data={mockUsers} columns={editableColumns} cellSelection onPaste={onPaste} />);
+
+      const setData = vi.fn();
+      fireEvent.mouseDown(cell(1, 'name'));
+      fireEvent.mouseDown(cell(2, 'age'), { shiftKey: true });
+      fireEvent.copy(cell(1, 'name'), { clipboardData: { setData } });
+      const copied = setData.mock.calls.find(([type]) => type === 'text/plain')![1];
+
+      // Rows 1 and 2 go onto rows 2 and 3; each value stays in its own column
+      fireEvent.mouseDown(cell(2, 'name'));
+      fireEvent.paste(cell(2, 'name'), { clipboardData: { getData: () => copied } });
+      expect(onPaste).toHaveBeenCalledWith([
+        { record: mockUsers[1], key: 'name', value: 'Alice' },
+        { record: mockUsers[1], key: 'age', value: 28 },
+        { record: mockUsers[2], key: 'name', value: 'Bob' },
+        { record: mockUsers[2], key: 'age', value: 32 },
+      ]);
+      expect(cell(2, 'email')).toHaveAttribute('data-paste-error', 'This column is read-only');
+      expect(screen.getByRole('alert')).toHaveTextContent('2 pasted values were skipped');
+    });
+  });
+
+  describe('infinite scrolling', () => {
+    let observers: Array<{ callback: IntersectionObserverCallback; disconnected: boolean }>;
+
+    beforeEach(() => {
+      observers = [];
+      vi.stubGlobal(
+        'IntersectionObserver',
+        class {
+          entry: (typeof observers)[number];
+          constructor(callback: IntersectionObserverCallback) {
+            this.entry = { callback, disconnected: false };
+            observers.push(this.entry);
+          }
+          observe() {}
+          disconnect() {
+            this.entry.disconnected = true;
+          }
+        }
+      );
+    });
+
+    afterEach(() => {
+      vi.unstubAllGlobals();
+    });
+
+    const activeObservers = () => observers.filter(observer => !observer.disconnected);
+    const scrollToEnd = () =>
+      act(() => {
+        activeObservers()[0].callback([{ isIntersecting: true } as IntersectionObserverEntry], {} as IntersectionObserver);
+      });
+    const moreUsers = [...mockUsers, { id: 4, name: 'Dave', email: 'dave@example.com', age: 41, active: true }];
+
+    it('loads more rows near the end and shows a loading row until they arrive', async () => {
+      let resolve = () => {};
+      const onLoadMore = vi.fn(() => new Promise<void>(done => (resolve = done)));
+      const { rerender } = render(
+        <DataTable data={mockUsers} columns={columns} infinite pagination pageSize={2} onLoadMore={onLoadMore} />
+      );
+      expect(screen.getAllByRole('row')).toHaveLength(4);
+      expect(screen.queryByText('Next')).not.toBeInTheDocument();
+
+      scrollToEnd();
+      expect(onLoadMore).toHaveBeenCalledTimes(1);
+      expect(screen.getByRole('status')).toHaveTextContent('Loading more rows…');
+      expect(activeObservers()).toHaveLength(0);
+
+      rerender(
+        <DataTable data={moreUsers} columns={columns} infinite pagination pageSize={2} onLoadMore={onLoadMore} />
+      );
+      await act(async () => resolve());
+      expect(screen.queryByRole('status')).not.toBeInTheDocument();
+      expect(screen.getByText('Dave')).toBeInTheDocument();
+      expect(activeObservers()).toHaveLength(1);
+
+      rerender(
+        <DataTable data={moreUsers} columns={columns} infinite hasMore={false} onLoadMore={onLoadMore} />
+      );
+      expect(activeObservers()).toHaveLength(0);
+    });
+
+    it('offers a retry after a failed load and keeps the scroll offset of appended rows', async () => {
+      const onLoadMore = vi.fn().mockRejectedValueOnce(new Error('Network error')).mockResolvedValue(undefined);
+      const { rerender } = render(
+        <DataTable data={mockUsers} columns={columns} infinite maxHeight={200} onLoadMore={onLoadMore} />
+      );
+      await act(async () => scrollToEnd());
+      expect(screen.getByRole('alert')).toHaveTextContent('Could not load more rows.');
+      expect(activeObservers()).toHaveLength(0);
+      await act(async () => fireEvent.click(screen.getByRole('button', { name: 'Retry' })));
+      expect(onLoadMore).toHaveBeenCalledTimes(2);
+      expect(screen.queryByRole('alert')).not.toBeInTheDocument();
+
+      const scrollArea = screen.getByRole('table').parentElement!;
+      scrollArea.scrollTop = 120;
+      fireEvent.scroll(scrollArea);
+      // Stands in for the browser moving the offset when the loading row goes away
+      scrollArea.scrollTop = 40;
+      rerender(<DataTable data={moreUsers} columns={columns} infinite maxHeight={200} onLoadMore={onLoadMore} />);
+      expect(scrollArea.scrollTop).toBe(120);
+
+      // A new query replaces the rows and starts over at the top
+      rerender(<DataTable data={moreUsers.slice(1)} columns={columns} infinite maxHeight={200} onLoadMore={onLoadMore} />);
+      expect(scrollArea.scrollTop).toBe(0);
+    });
+
+    it('loads the first rows into an empty table', () => {
+      const onLoadMore = vi.fn();
+      render(<DataTable data={[]} columns={columns} infinite onLoadMore={onLoadMore} />);
+      expect(screen.queryByText('No data')).not.toBeInTheDocument();
+      scrollToEnd();
+      expect(onLoadMore).toHaveBeenCalledTimes(1);
+    });
+  });
 });
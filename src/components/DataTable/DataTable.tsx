@@ -1,14 +1,98 @@
 // src/components/DataTable/DataTable.tsx
-import React, { useState, useMemo } from 'react';
+import React, { useEffect, useId, useLayoutEffect, useMemo, useRef, useState } from 'react';
+import { useControllableState } from './useControllableState';
+import { sortRows, toggleSort } from './sorting';
+import { filterRows, getDistinctValues, isFilterActive } from './filtering';
+import { FilterPopover } from './FilterPopover';
+import { highlightMatches, searchRows } from './search';
+import { useVirtualRows } from './useVirtualRows';
+import { ColumnResizer } from './ColumnResizer';
+import { ColumnChooser } from './ColumnChooser';
+import {
+  buildForest,
+  flattenForest,
+  getDescendantKeys,
+  getForestKeys,
+  getPartiallySelected,
+  indexForest,
+  pruneForest,
+  sortForest,
+  toggleTreeSelection,
+} from './tree';
+import type { TreeRow } from './tree';
+import { aggregateLabels, computeAggregate, formatAggregate } from './aggregates';
+import type { Aggregate } from './aggregates';
+import { groupRows } from './grouping';
+import type { GroupSort, RowGroup } from './grouping';
+import { CellEditor } from './CellEditor';
+import { fromDraft, parseCellText, resolveEditor, toDraft } from './editing';
+import type { EditableConfig } from './editing';
+import { ExportMenu } from './ExportMenu';
+import {
+  createAggregateRow,
+  createDataRow,
+  createExportColumns,
+  createExportSheet,
+  exportFormats,
+  exportSheet,
+  formatText,
+  getExportValue,
+  sheetToCsv,
+  sheetToHtml,
+} from './exporting';
+import type { ExportConfig, ExportFormat, ExportRow, ExportScope, ExportValue } from './exporting';
+import { parseDelimited } from './importing';
+
+export type { Aggregate, AggregateType } from './aggregates';
+export type { GroupSort, RowGroup } from './grouping';
+export type { CellEditorType, EditableConfig, EditorOption } from './editing';
+export type { CsvOptions, ExportConfig, ExportFormat, ExportScope, ExportSheet, ExportValue } from './exporting';
 
 export interface Column<T> {
   key: string;
   title: string;
   dataIndex: keyof T;
   sortable?: boolean;
+  /** Custom ascending comparator; overrides `sortType` */
+  sorter?: (a: T, b: T) => number;
+  /** Built-in comparator; defaults to comparing strings and numbers as-is */
+  sortType?: SortType;
+  /** Keeps empty values first or last regardless of sort direction */
+  nullsPosition?: 'first' | 'last';
+  /**
+   * Enables a filter popover in the column header. In server mode, enum filters
+   * need `options`, since `data` holds a single page; without them the column
+   * gets a text filter instead.
+   */
+  filter?: ColumnFilter;
+  /** Text used by the quick search, e.g. for cells shown through `render` */
+  searchValue?: (record: T) => string;
   render?: (value: any, record: T, index: number) => React.ReactNode;
   width?: string | number;
+  /** Overrides the table-level `resizableColumns` for this column */
+  resizable?: boolean;
+  /** Resize bounds in px */
+  minWidth?: number;
+  maxWidth?: number;
   align?: 'left' | 'center' | 'right';
+  /** Controlled visibility; the column chooser then only reports changes */
+  hidden?: boolean;
+  /** Initial visibility when `hidden` is not set */
+  defaultHidden?: boolean;
+  /** Pins the column to an edge while the table scrolls horizontally */
+  fixed?: 'left' | 'right';
+  /** Aggregate shown for this column in the summary row */
+  aggregate?: Aggregate<T>;
+  /** Formats this column's aggregates in the summary row and group headers */
+  aggregateRender?: (value: unknown, records: T[]) => React.ReactNode;
+  /** Lets users edit cells of this column (double-click, Enter or F2); see `onCellEdit` */
+  editable?: boolean | EditableConfig;
+  /** Checks an edited value; a returned message keeps the editor open and shows the error */
+  validate?: (value: unknown, record: T) => string | null | undefined;
+  /** Value written to exported files, e.g. for cells shown through `render` */
+  exportValue?: (record: T) => ExportValue;
+  /** Set to false to leave the column out of toolbar exports, e.g. for decorative columns */
+  exportable?: boolean;
 }
 
 export interface DataTableProps<T> {
@@ -16,155 +100,1666 @@ export interface DataTableProps<T> {
   columns: Column<T>[];
   loading?: boolean;
   selectable?: boolean;
-  onRowSelect?: (selectedRows: T[]) => void;
+  /** Checkboxes for selecting any number of rows, or radio buttons for a single row */
+  selectionMode?: SelectionMode;
+  /** Rows for which this returns false are locked: their checkbox is disabled */
+  isRowSelectable?: (record: T) => boolean;
+  /** Upper bound on the number of selected rows in `multiple` mode */
+  maxSelection?: number;
+  /**
+   * Called with the selected records and their keys, including rows on other
+   * pages. Records are known once their rows have been in `data`; keys of rows
+   * the table has never seen are reported without a record.
+   */
+  onRowSelect?: (selectedRows: T[], selectedKeys: RowKey[]) => void;
   className?: string;
-  rowKey?: keyof T | ((record: T) => string | number);
+  rowKey?: keyof T | ((record: T) => RowKey);
   pagination?: boolean;
   pageSize?: number;
+  /**
+   * Renders all of `data` without pages and calls `onLoadMore` as the user
+   * scrolls near the end, e.g. for cursor-based APIs; replaces `pagination`
+   */
+  infinite?: boolean;
+  /** Whether there are rows left to load in `infinite` mode */
+  hasMore?: boolean;
+  /**
+   * Fetches the next rows; append them to `data`. A loading row shows while
+   * a returned promise is pending, and a Retry button if it rejects.
+   */
+  onLoadMore?: () => void | Promise<unknown>;
+  /** Shows the loading row, for loads not tracked through `onLoadMore`'s promise */
+  loadingMore?: boolean;
+  /** Distance in px from the last row at which loading starts */
+  loadMoreThreshold?: number;
   onRowClick?: (record: T, index: number) => void;
   emptyText?: string;
   size?: 'sm' | 'md' | 'lg';
   striped?: boolean;
   bordered?: boolean;
+  /**
+   * 'client' filters, sorts and paginates `data` in memory. 'server' renders
+   * `data` as-is and reports sort/filter/page changes through `onQueryChange`.
+   */
+  mode?: DataTableMode;
+  onQueryChange?: (query: DataTableQuery) => void;
+  /** Total number of rows on the server; used by pagination in server mode */
+  totalCount?: number;
+  // Controlled/uncontrolled state (controlled when the value prop is set)
+  sort?: SortState;
+  defaultSort?: SortState;
+  onSortChange?: (sort: SortState) => void;
+  page?: number;
+  defaultPage?: number;
+  onPageChange?: (page: number) => void;
+  selectedRowKeys?: RowKey[];
+  defaultSelectedRowKeys?: RowKey[];
+  onSelectedRowKeysChange?: (keys: RowKey[]) => void;
+  filters?: FilterState;
+  defaultFilters?: FilterState;
+  onFilterChange?: (filters: FilterState) => void;
+  /** Shows a quick-search box above the table */
+  searchable?: boolean;
+  /** Column keys the quick search looks at; defaults to every visible column */
+  searchableColumns?: string[];
+  searchPlaceholder?: string;
+  /** Delay in ms between the last keystroke and applying the search */
+  searchDebounce?: number;
+  search?: string;
+  defaultSearch?: string;
+  onSearchChange?: (search: string) => void;
+  /** Renders only the rows inside a fixed-height scroll viewport */
+  virtualized?: boolean;
+  /** Viewport height in px when virtualized */
+  height?: number;
+  /** Estimated row height in px; rows are measured once rendered */
+  rowHeight?: number;
+  /** Rows rendered beyond each edge of the viewport */
+  overscan?: number;
+  /**
+   * Scroll bounds: `x` is the table's minimum width (`true` for its content
+   * width), `y` the maximum height of the scroll area; the header stays sticky
+   */
+  scroll?: { x?: number | string | true; y?: number | string };
+  /** Shorthand for `scroll.y` */
+  maxHeight?: number | string;
+  /** Adds drag handles to header borders for resizing columns */
+  resizableColumns?: boolean;
+  /** Initial widths in px keyed by column key, e.g. restored from user settings */
+  defaultColumnWidths?: Record<string, number>;
+  /** Called when a resize finishes, with all widths changed so far */
+  onColumnResize?: (key: string, width: number, widths: Record<string, number>) => void;
+  /** Lets users reorder columns by dragging headers or with Alt+Arrow keys */
+  reorderableColumns?: boolean;
+  /** Column keys in display order; unlisted columns follow in `columns` order */
+  columnOrder?: string[];
+  defaultColumnOrder?: string[];
+  onColumnOrderChange?: (keys: string[]) => void;
+  /**
+   * Renders rows with child rows as an indented, expandable tree. Filters and
+   * the quick search keep the ancestors of matching rows; sorting applies
+   * within each level and pagination counts top-level rows.
+   */
+  treeData?: boolean;
+  /** Field holding a row's child rows; defaults to 'children' */
+  childrenKey?: keyof T;
+  /** Fetches a row's child rows the first time it is expanded */
+  loadChildren?: (record: T) => Promise<T[]>;
+  /** Whether a row has children to load; defaults to true when `loadChildren` is set */
+  hasChildren?: (record: T) => boolean;
+  expandedTreeKeys?: RowKey[];
+  defaultExpandedTreeKeys?: RowKey[];
+  onExpandedTreeKeysChange?: (keys: RowKey[]) => void;
+  /** Rows the summary row aggregates over: all matching rows, the current page or the selection */
+  summaryScope?: SummaryScope;
+  /** Groups rows under collapsible header rows; a field name or a full config */
+  groupBy?: keyof T | GroupByConfig<T>;
+  /** Adds an expand toggle column and detail rows beneath expanded rows */
+  expandable?: ExpandableConfig<T>;
+  /** Shows a "Columns" menu in the toolbar for hiding and showing columns */
+  columnChooser?: boolean;
+  /** Adds an Export toolbar button that downloads the current view */
+  exportable?: boolean | ExportConfig;
+  onColumnVisibilityChange?: (key: string, visible: boolean) => void;
+  /**
+   * Called with a validated cell edit; update `data` to apply it. When a
+   * promise is returned, the new value shows until it settles and is rolled
+   * back if it rejects.
+   */
+  onCellEdit?: (record: T, key: string, value: unknown) => void | Promise<unknown>;
+  /**
+   * Lets users select a block of cells by dragging or Shift+Arrow keys and
+   * copy it with Ctrl+C as TSV and HTML
+   */
+  cellSelection?: boolean;
+  /**
+   * Called with the valid cells of a paste into the selected range, laid out
+   * across the editable columns; needs `cellSelection`. Invalid values are
+   * skipped and marked. A returned promise is handled as in `onCellEdit`.
+   */
+  onPaste?: (changes: CellChange<T>[]) => void | Promise<unknown>;
+  /** Adds an actions column for editing every editable column of a row at once */
+  rowEditing?: RowEditingConfig<T>;
+  /**
+   * Renders the table as an ARIA grid with a single tab stop: arrow keys,
+   * Home/End and PageUp/PageDown move between cells, Enter activates the row
+   * or cell and Space toggles selection
+   */
+  keyboardNavigation?: boolean;
+}
+
+export type RowKey = string | number;
+
+export type SummaryScope = 'all' | 'page' | 'selection';
+
+export interface GroupByConfig<T> {
+  /** Field or function giving a row's group value */
+  field: keyof T | ((record: T) => unknown);
+  /** Aggregates shown in the group header row, keyed by column key */
+  aggregates?: Record<string, Aggregate<T>>;
+  /** Group order, independent of the row sort; defaults to ascending by value */
+  sort?: GroupSort<T>;
+  /** Group header label; defaults to the group value */
+  title?: (group: RowGroup<T>) => React.ReactNode;
+  /** Pages over whole groups (default) or over header and data rows alike */
+  paginateBy?: 'groups' | 'rows';
+  // Controlled/uncontrolled collapsed groups, by group key (the value as a string)
+  collapsedGroups?: string[];
+  defaultCollapsedGroups?: string[];
+  onCollapsedGroupsChange?: (keys: string[]) => void;
+}
+
+export interface ExpandableConfig<T> {
+  /** Detail content; only rendered while the row is expanded */
+  expandedRowRender: (record: T, index: number) => React.ReactNode;
+  /** Rows without a toggle; all rows are expandable by default */
+  rowExpandable?: (record: T) => boolean;
+  // Controlled/uncontrolled expanded rows (controlled when `expandedRowKeys` is set)
+  expandedRowKeys?: RowKey[];
+  defaultExpandedRowKeys?: RowKey[];
+  onExpandedRowsChange?: (keys: RowKey[]) => void;
+  /** Called when a single row is expanded or collapsed */
+  onExpand?: (expanded: boolean, record: T) => void;
 }
 
-type SortDirection = 'asc' | 'desc' | null;
+export interface RowEditingConfig<T> {
+  /**
+   * Saves the changed fields of the row being edited. The row stays in edit
+   * mode until a returned promise resolves, and keeps its drafts if it rejects.
+   */
+  onSave: (record: T, changes: Partial<T>) => void | Promise<unknown>;
+  /** Checks the edited row as a whole; return messages keyed by column key */
+  validate?: (values: T, record: T) => Record<string, string | undefined> | null | undefined;
+  onCancel?: (record: T) => void;
+  /** Rows without an Edit button; all rows are editable by default */
+  rowEditable?: (record: T) => boolean;
+  // Controlled/uncontrolled row in edit mode (controlled when `editingRowKey` is set)
+  editingRowKey?: RowKey | null;
+  defaultEditingRowKey?: RowKey | null;
+  onEditingRowKeyChange?: (key: RowKey | null) => void;
+}
+
+/** A pasted value, parsed and validated for its column */
+export interface CellChange<T> {
+  record: T;
+  key: string;
+  value: unknown;
+}
+
+export type DataTableMode = 'client' | 'server';
+
+export type SelectionMode = 'single' | 'multiple';
+
+export type SortType = 'number' | 'date' | 'boolean' | 'natural' | 'locale';
 
-interface SortState {
-  column: string | null;
+export type SortDirection = 'asc' | 'desc';
+
+export interface SortRule {
+  column: string;
   direction: SortDirection;
 }
 
+/** Sort keys in priority order; an empty array means unsorted */
+export type SortState = SortRule[];
+
+export type ColumnFilter =
+  | { type: 'text'; placeholder?: string }
+  | { type: 'number' }
+  | { type: 'date' }
+  | { type: 'enum'; options?: Array<{ label: string; value: string | number | boolean }> }
+  | { type: 'boolean'; trueLabel?: string; falseLabel?: string };
+
+export type FilterValue =
+  | { type: 'text'; value: string }
+  | { type: 'number'; min?: number; max?: number }
+  | { type: 'date'; from?: string; to?: string }
+  | { type: 'enum'; values: Array<string | number | boolean> }
+  | { type: 'boolean'; value: boolean };
+
+/** Active filter values keyed by column key */
+export type FilterState = Record<string, FilterValue>;
+
+// Rendered row heights (px) for each size, used as the virtualization estimate
+const defaultRowHeight = {
+  sm: 37,
+  md: 49,
+  lg: 61,
+};
+
+function resolveRowKey<T>(record: T, index: number, rowKey: keyof T | ((record: T) => RowKey)): RowKey {
+  if (typeof rowKey === 'function') {
+    return rowKey(record);
+  }
+  return (record[rowKey] as RowKey | undefined) ?? index;
+}
+
+const NO_SORT: SortState = [];
+const NO_KEYS: RowKey[] = [];
+const NO_FILTERS: FilterState = {};
+const NO_WIDTHS: Record<string, number> = {};
+const NO_COLUMN_ORDER: string[] = [];
+const NO_GROUP_KEYS: string[] = [];
+
+// First-cell label of the summary row, unless that column shows an aggregate
+const summaryLabels: Record<SummaryScope, string> = {
+  all: 'Total',
+  page: 'Page total',
+  selection: 'Selected',
+};
+const DEFAULT_MIN_COLUMN_WIDTH = 50;
+
+// Key under which the selection column's width is measured
+const SELECTION_COLUMN_KEY = '__selection__';
+const EXPAND_COLUMN_KEY = '__expand__';
+const ACTION_COLUMN_KEY = '__actions__';
+// Row key of the header row in keyboard navigation
+const HEADER_ROW_KEY = '__header__';
+// Rows moved by PageUp/PageDown unless virtualized, where it is one viewport
+const GRID_PAGE_STEP = 10;
+// Indentation per tree level in px
+const TREE_INDENT = 20;
+
+// The cell being edited, with its draft value and validation error
+interface EditingCell {
+  rowKey: RowKey;
+  columnKey: string;
+  draft: unknown;
+  error?: string;
+}
+
+// Drafts of the row in edit mode, keyed by column key
+interface RowDraft {
+  rowKey: RowKey;
+  drafts: Record<string, unknown>;
+  errors: Record<string, string>;
+  saving?: boolean;
+  saveError?: string;
+}
+
+// A selected block of data cells, from where the selection started to where it ends
+interface CellRange {
+  anchor: { rowKey: RowKey; columnKey: string };
+  focus: { rowKey: RowKey; columnKey: string };
+}
+
+// Row and column offsets of Shift+Arrow keys
+const RANGE_STEPS: Record<string, [number, number]> = {
+  ArrowUp: [-1, 0],
+  ArrowDown: [1, 0],
+  ArrowLeft: [0, -1],
+  ArrowRight: [0, 1],
+};
+
+// Clicks on these start no cell range; keys and clipboard events in text fields are theirs
+const INTERACTIVE_SELECTOR = 'a, button, input, select, textarea, label, [contenteditable="true"]';
+const TEXT_FIELD_SELECTOR = 'input, select, textarea, [contenteditable="true"]';
+
+// A rendered body row: a group header or a data row
+type PageItem<T> = { type: 'group'; group: RowGroup<T> } | { type: 'row'; row: TreeRow<T> };
+
+const getItemKey = <T,>(item: PageItem<T>): RowKey =>
+  item.type === 'row' ? item.row.key : `group:${item.group.key}`;
+
+// Rendered header cell widths in px, keyed by column key
+function measureHeaderWidths(table: HTMLTableElement | null): Record<string, number> {
+  const widths: Record<string, number> = {};
+  table?.querySelectorAll<HTMLElement>('thead th[data-column-key]').forEach(th => {
+    widths[th.dataset.columnKey as string] = th.getBoundingClientRect().width;
+  });
+  return widths;
+}
+
+// Body cell of a rendered row
+function findCell(table: HTMLTableElement | null, rowKey: RowKey, columnKey: string) {
+  const rows = table?.querySelectorAll<HTMLTableRowElement>('tr[data-row-key]') ?? [];
+  const tr = Array.from(rows).find(el => el.dataset.rowKey === String(rowKey));
+  return tr ? Array.from(tr.cells).find(td => td.dataset.columnKey === columnKey) : undefined;
+}
+
+// Whether content is scrolled out of view past each horizontal edge of `el`
+const getScrollEdges = (el: HTMLElement) => ({
+  left: el.scrollLeft > 0,
+  right: el.scrollLeft + el.clientWidth < el.scrollWidth - 1,
+});
+
+const sameWidths = (a: Record<string, number>, b: Record<string, number>) => {
+  const keys = Object.keys(a);
+  return keys.length === Object.keys(b).length && keys.every(key => a[key] === b[key]);
+};
+
+export interface DataTableQuery {
+  sort: SortState;
+  filters: FilterState;
+  search: string;
+  page: number;
+  pageSize: number;
+}
+
 /**
  * DataTable component with sorting, selection, loading, and empty states
  * - Generic type T for flexible data structure
- * - Column sorting with visual indicators
- * - Row selection (single/multiple)
+ * - Column sorting with visual indicators (shift-click for multi-column)
+ * - Row selection (single/multiple) with shift-click ranges, kept across pages and sorts
+ * - Locked rows and a selection cap, ignored by the select-all checkbox
  * - Loading spinner overlay
  * - Empty state with customizable message
  * - Responsive design with horizontal scroll
  * - Accessibility with proper ARIA attributes
+ * - Column filters (text, number/date range, enum, boolean) in header popovers
+ * - Debounced quick search with match highlighting
+ * - Optional row virtualization for large datasets
+ * - Sticky header inside a height-bounded scroll area
+ * - Resizable columns (drag, keyboard, double-click to fit)
+ * - Column reordering via drag-and-drop or Alt+Arrow keys
+ * - Column chooser for hiding columns, and columns pinned to the left/right edge
+ * - CSV, XLSX, JSON and NDJSON export of the current view, all pages or only the selected rows
+ * - Expandable rows with lazily rendered detail panels
+ * - Tree data with cascading selection and lazily loaded children
+ * - Row grouping with collapsible, aggregated group headers
+ * - Summary footer row with per-column aggregates
+ * - Inline cell editing with validation and optimistic saves
+ * - Row edit mode with save/cancel actions and row-level validation
+ * - Cell range selection with copy as TSV/HTML and validated paste into editable columns
+ * - Optional ARIA grid keyboard navigation with a roving tab stop
+ * - Server mode for remotely sorted, filtered and paginated data
+ * - Infinite scrolling through `onLoadMore`, as an alternative to pages
+ * - Sort, page and selection can be controlled by the parent
  */
 export function DataTable<T extends Record<string, any>>({
   data,
   columns,
   loading = false,
   selectable = false,
+  selectionMode = 'multiple',
+  isRowSelectable,
+  maxSelection,
   onRowSelect,
   className = '',
   rowKey = 'id',
   pagination = false,
   pageSize = 10,
+  infinite = false,
+  hasMore = true,
+  onLoadMore,
+  loadingMore = false,
+  loadMoreThreshold = 200,
   onRowClick,
   emptyText = 'No data available',
   size = 'md',
   striped = true,
   bordered = false,
+  mode = 'client',
+  onQueryChange,
+  totalCount,
+  sort,
+  defaultSort = NO_SORT,
+  onSortChange,
+  page,
+  defaultPage = 1,
+  onPageChange,
+  selectedRowKeys,
+  defaultSelectedRowKeys = NO_KEYS,
+  onSelectedRowKeysChange,
+  filters,
+  defaultFilters = NO_FILTERS,
+  onFilterChange,
+  searchable = false,
+  searchableColumns,
+  searchPlaceholder = 'Search...',
+  searchDebounce = 300,
+  search,
+  defaultSearch = '',
+  onSearchChange,
+  virtualized = false,
+  height = 400,
+  rowHeight,
+  overscan = 5,
+  scroll,
+  maxHeight,
+  resizableColumns = false,
+  defaultColumnWidths = NO_WIDTHS,
+  onColumnResize,
+  reorderableColumns = false,
+  columnOrder,
+  defaultColumnOrder = NO_COLUMN_ORDER,
+  onColumnOrderChange,
+  treeData = false,
+  childrenKey = 'children',
+  loadChildren,
+  hasChildren,
+  expandedTreeKeys,
+  defaultExpandedTreeKeys = NO_KEYS,
+  onExpandedTreeKeysChange,
+  summaryScope = 'all',
+  groupBy,
+  expandable,
+  columnChooser = false,
+  exportable = false,
+  onColumnVisibilityChange,
+  onCellEdit,
+  cellSelection = false,
+  onPaste,
+  rowEditing,
+  keyboardNavigation = false,
 }: DataTableProps<T>) {
-  const [selectedRows, setSelectedRows] = useState<Set<string | number>>(new Set());
-  const [sortState, setSortState] = useState<SortState>({ column: null, direction: null });
-  const [currentPage, setCurrentPage] = useState(1);
+  const [sortState, setSortState] = useControllableState(sort, defaultSort, onSortChange);
+  const [pageState, setCurrentPage] = useControllableState(page, defaultPage, onPageChange);
+  const [selectedKeys, setSelectedKeys] = useControllableState(
+    selectedRowKeys,
+    defaultSelectedRowKeys,
+    onSelectedRowKeysChange
+  );
+  const [filterState, setFilterState] = useControllableState(filters, defaultFilters, onFilterChange);
+  const [searchQuery, setSearchQuery] = useControllableState(search, defaultSearch, onSearchChange);
+  const [searchInput, setSearchInput] = useState(searchQuery);
+  const searchTimer = useRef<ReturnType<typeof setTimeout>>(undefined);
+  const [columnWidths, setColumnWidths] = useState(defaultColumnWidths);
+  const tableRef = useRef<HTMLTableElement>(null);
+  const [columnOrderState, setColumnOrder] = useControllableState(
+    columnOrder,
+    defaultColumnOrder,
+    onColumnOrderChange
+  );
+  const [dragState, setDragState] = useState<{ from: string; over?: string; side?: 'before' | 'after' } | null>(null);
+  const [reorderMessage, setReorderMessage] = useState('');
+  const focusHeaderKey = useRef<string | null>(null);
+  const [hiddenKeys, setHiddenKeys] = useState(() =>
+    columns.filter(col => col.defaultHidden).map(col => col.key)
+  );
+  const [headerWidths, setHeaderWidths] = useState(NO_WIDTHS);
+  // Whether content is scrolled out of view past the left/right edge
+  const [overflowLeft, setOverflowLeft] = useState(false);
+  const [overflowRight, setOverflowRight] = useState(false);
+  const selectedRows = useMemo(() => new Set(selectedKeys), [selectedKeys]);
+  const [expandedKeys, setExpandedKeys] = useControllableState(
+    expandable?.expandedRowKeys,
+    expandable?.defaultExpandedRowKeys ?? NO_KEYS,
+    expandable?.onExpandedRowsChange
+  );
+  const detailIdPrefix = useId();
+  const radioGroupName = useId();
+  const [treeKeys, setTreeKeys] = useControllableState(
+    expandedTreeKeys,
+    defaultExpandedTreeKeys,
+    onExpandedTreeKeysChange
+  );
+  const expandedTreeRows = useMemo(() => new Set(treeKeys), [treeKeys]);
+  // Latest expanded tree rows, for expanding once lazily loaded children arrive
+  const latestTreeKeys = useRef(treeKeys);
+  useEffect(() => {
+    latestTreeKeys.current = treeKeys;
+  });
+  const groupConfig: GroupByConfig<T> | undefined =
+    groupBy === undefined || typeof groupBy === 'object' ? groupBy : { field: groupBy };
+  const [collapsedGroups, setCollapsedGroups] = useControllableState(
+    groupConfig?.collapsedGroups,
+    groupConfig?.defaultCollapsedGroups ?? NO_GROUP_KEYS,
+    groupConfig?.onCollapsedGroupsChange
+  );
+  const collapsedGroupSet = useMemo(() => new Set(collapsedGroups), [collapsedGroups]);
+  const [loadedChildren, setLoadedChildren] = useState(() => new Map<RowKey, T[]>());
+  const [loadingChildren, setLoadingChildren] = useState(() => new Set<RowKey>());
+  const [editingCell, setEditingCell] = useState<EditingCell | null>(null);
+  // Values of edits whose `onCellEdit` promise is still pending, by row and column key
+  const [pendingEdits, setPendingEdits] = useState(() => new Map<RowKey, Record<string, { value: unknown }>>());
+  const lastEditedCell = useRef<EditingCell | null>(null);
+  const [cellRange, setCellRange] = useState<CellRange | null>(null);
+  const rangeDragging = useRef(false);
+  // Messages of pasted values that were skipped, by row and column key
+  const [pasteErrors, setPasteErrors] = useState(() => new Map<RowKey, Record<string, string>>());
+  const [editingRowKey, setEditingRowKey] = useControllableState(
+    rowEditing?.editingRowKey,
+    rowEditing?.defaultEditingRowKey ?? null,
+    rowEditing?.onEditingRowKeyChange
+  );
+  const [rowDraft, setRowDraft] = useState<RowDraft | null>(null);
+  const lastEditingRowKey = useRef<RowKey | null>(null);
+  const [activeCell, setActiveCell] = useState<{ row: RowKey; column: string } | null>(null);
+  // Last cell that held focus, to bring focus back when its row is removed
+  const lastFocusedCell = useRef<HTMLElement | null>(null);
+  // Set when the active cell moved to a row that renders only after scrolling
+  const pendingGridFocus = useRef(false);
+  const scrollRef = useRef<HTMLDivElement>(null);
+  const loadMoreRef = useRef<HTMLTableRowElement>(null);
+  const [loadMoreState, setLoadMoreState] = useState<'idle' | 'loading' | 'failed'>('idle');
+  // Scroll offset the user last scrolled to, kept when rows are appended
+  const lastScrollTop = useRef(0);
+  const previousData = useRef(data);
 
-  // Generate row key
-  const getRowKey = (record: T, index: number): string | number => {
-    if (typeof rowKey === 'function') {
-      return rowKey(record);
-    }
-    return record[rowKey] ?? index;
-  };
+  const isServerMode = mode === 'server';
+  const paginated = pagination && !infinite;
 
-  // Sort data based on current sort state
-  const sortedData = useMemo(() => {
-    if (!sortState.column || !sortState.direction) {
-      return data;
-    }
+  const scrollY = scroll?.y ?? maxHeight;
+  // Header (and footer) rows stick to the scroll area whenever it scrolls vertically
+  const stickyHeader = virtualized || scrollY !== undefined;
 
-    const column = columns.find(col => col.key === sortState.column);
-    if (!column) return data;
+  // Columns in display order
+  const orderedColumns = useMemo(() => {
+    if (columnOrderState.length === 0) return columns;
+    const position = new Map(columnOrderState.map((key, index) => [key, index]));
+    return columns
+      .map((column, index) => ({ column, index }))
+      .sort((a, b) => {
+        const aPosition = position.get(a.column.key) ?? columnOrderState.length + a.index;
+        const bPosition = position.get(b.column.key) ?? columnOrderState.length + b.index;
+        return aPosition - bPosition;
+      })
+      .map(entry => entry.column);
+  }, [columns, columnOrderState]);
 
-    return [...data].sort((a, b) => {
-      const aValue = a[column.dataIndex];
-      const bValue = b[column.dataIndex];
+  const isColumnVisible = (column: Column<T>) => !(column.hidden ?? hiddenKeys.includes(column.key));
 
-      if (aValue === bValue) return 0;
-      if (aValue == null) return sortState.direction === 'asc' ? -1 : 1;
-      if (bValue == null) return sortState.direction === 'asc' ? 1 : -1;
+  // Visible columns as rendered: left-pinned first, right-pinned last
+  const visibleColumns = orderedColumns.filter(isColumnVisible);
+  const displayColumns = [
+    ...visibleColumns.filter(col => col.fixed === 'left'),
+    ...visibleColumns.filter(col => col.fixed !== 'left' && col.fixed !== 'right'),
+    ...visibleColumns.filter(col => col.fixed === 'right'),
+  ];
+  const hasPinnedColumns = displayColumns.some(col => col.fixed);
+  // The selection and expand columns stay pinned along with left-pinned columns
+  const pinLeadingColumns = displayColumns.some(col => col.fixed === 'left');
+  // Likewise the row actions column with right-pinned columns
+  const pinTrailingColumns = !!rowEditing && displayColumns.some(col => col.fixed === 'right');
+  // Every rendered column, for cells that span the full row
+  const columnCount =
+    displayColumns.length + (selectable ? 1 : 0) + (expandable ? 1 : 0) + (rowEditing ? 1 : 0);
+  const hasSummaryRow = displayColumns.some(column => column.aggregate !== undefined);
 
-      let comparison = 0;
-      if (typeof aValue === 'string' && typeof bValue === 'string') {
-        comparison = aValue.localeCompare(bValue);
-      } else if (typeof aValue === 'number' && typeof bValue === 'number') {
-        comparison = aValue - bValue;
-      } else {
-        comparison = String(aValue).localeCompare(String(bValue));
-      }
+  // Child rows are given on the record or fetched through `loadChildren`
+  const getTreeChildren = (record: T, key: RowKey) =>
+    (record[childrenKey] as T[] | undefined) ?? loadedChildren.get(key);
 
-      return sortState.direction === 'asc' ? comparison : -comparison;
-    });
-  }, [data, sortState, columns]);
+  // Rows by tree level; without tree data every row is top-level
+  const sourceForest = useMemo(
+    () =>
+      buildForest(
+        data,
+        treeData
+          ? (record, index) =>
+              (record[childrenKey] as T[] | undefined) ?? loadedChildren.get(resolveRowKey(record, index, rowKey))
+          : undefined
+      ),
+    [data, treeData, childrenKey, loadedChildren, rowKey]
+  );
+
+  const treeIndex = useMemo(
+    () => (treeData ? indexForest(sourceForest, (record, index) => resolveRowKey(record, index, rowKey)) : null),
+    [treeData, sourceForest, rowKey]
+  );
+
+  // Apply column filters
+  const filteredForest = useMemo(() => {
+    if (isServerMode) return sourceForest;
+    return pruneForest(sourceForest, level => filterRows(level, filterState, columns));
+  }, [sourceForest, filterState, columns, isServerMode]);
+  const filteredData = filteredForest.roots;
 
-  // Paginate data if pagination is enabled
+  const searchColumns = useMemo(
+    () =>
+      searchableColumns
+        ? columns.filter(col => searchableColumns.includes(col.key))
+        : columns.filter(col => !(col.hidden ?? hiddenKeys.includes(col.key))),
+    [columns, searchableColumns, hiddenKeys]
+  );
+
+  // Apply the quick search
+  const searchedForest = useMemo(() => {
+    if (isServerMode) return filteredForest;
+    return pruneForest(filteredForest, level => searchRows(level, searchQuery, searchColumns));
+  }, [filteredForest, searchQuery, searchColumns, isServerMode]);
+  const searchedData = searchedForest.roots;
+
+  // Sort data based on current sort state, within each tree level
+  const sortedForest = useMemo(() => {
+    if (isServerMode) return searchedForest;
+    return sortForest(searchedForest, level => sortRows(level, sortState, columns));
+  }, [searchedForest, sortState, columns, isServerMode]);
+  const sortedData = sortedForest.roots;
+
+  // Group after sorting, so rows keep the table sort inside their group
+  const groupField = groupConfig?.field;
+  const groupSort = groupConfig?.sort;
+  const paginateGroups = groupConfig?.paginateBy !== 'rows';
+  const groups = useMemo(() => {
+    if (groupField === undefined) return null;
+    const getValue = typeof groupField === 'function' ? groupField : (record: T) => record[groupField];
+    return groupRows(sortedData, getValue, groupSort);
+  }, [sortedData, groupField, groupSort]);
+
+  // Header and visible rows of each group, in render order
+  const groupedItems = useMemo(() => {
+    if (!groups) return null;
+    const getKey = (record: T, index: number) => resolveRowKey(record, index, rowKey);
+    return groups.map((group): PageItem<T>[] => [
+      { type: 'group', group },
+      ...(collapsedGroupSet.has(group.key)
+        ? []
+        : flattenForest(group.records, sortedForest.children, getKey, expandedTreeRows).map(
+            (row): PageItem<T> => ({ type: 'row', row })
+          )),
+    ]);
+  }, [groups, collapsedGroupSet, sortedForest, rowKey, expandedTreeRows]);
+
+  const groupedRowCount = useMemo(
+    () => groupedItems?.reduce((count, items) => count + items.length, 0) ?? 0,
+    [groupedItems]
+  );
+
+  const totalRows = isServerMode
+    ? totalCount ?? data.length
+    : groupedItems
+    ? paginateGroups
+      ? groupedItems.length
+      : groupedRowCount
+    : sortedData.length;
+  const totalPages = Math.ceil(totalRows / pageSize);
+  // Stays in range when rows are removed or groups collapse; the server knows its own page count
+  const currentPage = isServerMode ? pageState : Math.min(pageState, Math.max(1, totalPages));
+  // Hands the clamped page back so a parent controlling `page` agrees with the pager;
+  // rows that are still loading may bring the page back into range
+  useEffect(() => {
+    if (!loading && currentPage !== pageState) setCurrentPage(currentPage);
+  }, [loading, currentPage, pageState, setCurrentPage]);
+  const isPaged = paginated && !isServerMode;
+  const pageOffset = isPaged ? (currentPage - 1) * pageSize : 0;
+
+  // Paginate data if pagination is enabled; the server already sends one page
   const paginatedData = useMemo(() => {
-    if (!pagination) return sortedData;
+    if (!paginated || isServerMode) return sortedData;
     const start = (currentPage - 1) * pageSize;
     return sortedData.slice(start, start + pageSize);
-  }, [sortedData, pagination, currentPage, pageSize]);
+  }, [sortedData, paginated, currentPage, pageSize, isServerMode]);
+
+  // Body rows of the current page in render order, including expanded tree rows
+  const pageItems = useMemo((): PageItem<T>[] => {
+    if (groupedItems) {
+      if (!isPaged) return groupedItems.flat();
+      return paginateGroups
+        ? groupedItems.slice(pageOffset, pageOffset + pageSize).flat()
+        : groupedItems.flat().slice(pageOffset, pageOffset + pageSize);
+    }
+    return flattenForest(
+      paginatedData,
+      sortedForest.children,
+      (record, index) => resolveRowKey(record, index, rowKey),
+      expandedTreeRows
+    ).map(row => ({ type: 'row', row }));
+  }, [groupedItems, isPaged, paginateGroups, pageOffset, pageSize, paginatedData, sortedForest, rowKey, expandedTreeRows]);
+
+  // Rendered rows of the whole view and of the pages before the current one, for
+  // aria-rowcount and aria-rowindex: group headers and expanded tree rows count too
+  const viewRowCounts = useMemo(() => {
+    if (!virtualized) return { total: 0, beforePage: 0 };
+    if (groupedItems) {
+      const beforePage = !isPaged
+        ? 0
+        : paginateGroups
+        ? groupedItems.slice(0, pageOffset).reduce((count, items) => count + items.length, 0)
+        : pageOffset;
+      return { total: groupedRowCount, beforePage };
+    }
+    const countRows = (records: T[]) =>
+      flattenForest(records, sortedForest.children, (record, index) => resolveRowKey(record, index, rowKey), expandedTreeRows)
+        .length;
+    const total = countRows(sortedData);
+    return {
+      // The server may hold more rows than it sent
+      total: isServerMode ? Math.max(total, totalCount ?? 0) : total,
+      beforePage: isPaged ? countRows(sortedData.slice(0, pageOffset)) : 0,
+    };
+  }, [
+    virtualized,
+    groupedItems,
+    groupedRowCount,
+    isPaged,
+    paginateGroups,
+    pageOffset,
+    sortedData,
+    sortedForest,
+    rowKey,
+    expandedTreeRows,
+    isServerMode,
+    totalCount,
+  ]);
+
+  const pageRows = useMemo(
+    () => pageItems.flatMap(item => (item.type === 'row' ? [item.row] : [])),
+    [pageItems]
+  );
+
+  const pageKeys = useMemo(() => pageItems.map(getItemKey), [pageItems]);
+
+  const virtualRows = useVirtualRows({
+    enabled: virtualized,
+    keys: pageKeys,
+    estimateHeight: rowHeight ?? defaultRowHeight[size],
+    viewportHeight: height,
+    overscan,
+    contentVersion: expandedKeys,
+  });
+
+  // Report the query to the parent so it can fetch the matching rows
+  const emitQuery = (changes: Partial<DataTableQuery>) => {
+    if (!isServerMode || !onQueryChange) return;
+    onQueryChange({
+      sort: sortState,
+      filters: filterState,
+      search: searchQuery,
+      page: currentPage,
+      pageSize,
+      ...changes,
+    });
+  };
 
-  const totalPages = Math.ceil(sortedData.length / pageSize);
+  // Keep the search box in sync when the search is changed from outside
+  useEffect(() => {
+    setSearchInput(searchQuery);
+  }, [searchQuery]);
+
+  useEffect(() => () => clearTimeout(searchTimer.current), []);
+
+  const applySearch = (value: string) => {
+    setSearchQuery(value);
+    setCurrentPage(1);
+    emitQuery({ search: value, page: 1 });
+  };
+  // The debounced search applies on top of sorts and filters changed while it was pending
+  const latestApplySearch = useRef(applySearch);
+  useEffect(() => {
+    latestApplySearch.current = applySearch;
+  });
+
+  // Apply the typed search once the user pauses
+  const handleSearchInput = (value: string) => {
+    setSearchInput(value);
+    clearTimeout(searchTimer.current);
+    searchTimer.current = setTimeout(() => latestApplySearch.current(value), searchDebounce);
+  };
 
   // Handle column sorting
-  const handleSort = (column: Column<T>) => {
+  const handleSort = (column: Column<T>, additive = false) => {
     if (!column.sortable) return;
 
-    setSortState(prev => {
-      if (prev.column === column.key) {
-        // Cycle through: asc -> desc -> null
-        const newDirection = prev.direction === 'asc' ? 'desc' : prev.direction === 'desc' ? null : 'asc';
-        return { column: newDirection ? column.key : null, direction: newDirection };
-      } else {
-        return { column: column.key, direction: 'asc' };
+    const nextSort = toggleSort(sortState, column.key, additive);
+    setSortState(nextSort);
+
+    // A new server-side ordering invalidates the current page
+    if (isServerMode) {
+      setCurrentPage(1);
+      emitQuery({ sort: nextSort, page: 1 });
+    }
+  };
+
+  // Handle column filter changes; the result set changes so go back to page 1
+  const handleFilterChange = (column: Column<T>, value: FilterValue | undefined) => {
+    const nextFilters = { ...filterState };
+    if (value) {
+      nextFilters[column.key] = value;
+    } else {
+      delete nextFilters[column.key];
+    }
+    setFilterState(nextFilters);
+    setCurrentPage(1);
+    emitQuery({ filters: nextFilters, page: 1 });
+  };
+
+  const isColumnResizable = (column: Column<T>) => column.resizable ?? resizableColumns;
+  const hasResizableColumns = displayColumns.some(isColumnResizable);
+
+  const getColumnWidth = (column: Column<T>) => columnWidths[column.key] ?? column.width;
+
+  const handleColumnResize = (column: Column<T>, width: number, commit: boolean) => {
+    const nextWidths = { ...columnWidths, [column.key]: width };
+    setColumnWidths(nextWidths);
+    if (commit) onColumnResize?.(column.key, width, nextWidths);
+  };
+
+  // Widest rendered content of a column, including the cell padding
+  const measureColumnContent = (column: Column<T>) => {
+    let widest = 0;
+    tableRef.current?.querySelectorAll<HTMLElement>('[data-column-key]').forEach(cell => {
+      if (cell.dataset.columnKey !== column.key) return;
+      // Lay the content out without wrapping in a hidden probe inside the cell
+      const probe = document.createElement('div');
+      probe.style.cssText = 'position:absolute;visibility:hidden;width:max-content;white-space:nowrap;';
+      Array.from(cell.childNodes).forEach(node => {
+        if (!(node instanceof HTMLElement && node.getAttribute('role') === 'separator')) {
+          probe.appendChild(node.cloneNode(true));
+        }
+      });
+      cell.appendChild(probe);
+      const style = window.getComputedStyle(cell);
+      const padding = (parseFloat(style.paddingLeft) || 0) + (parseFloat(style.paddingRight) || 0);
+      widest = Math.max(widest, probe.getBoundingClientRect().width + padding);
+      probe.remove();
+    });
+    return widest;
+  };
+
+  const handleAutoFit = (column: Column<T>) => {
+    const minWidth = column.minWidth ?? DEFAULT_MIN_COLUMN_WIDTH;
+    const maxWidth = column.maxWidth ?? Infinity;
+    const width = Math.round(Math.min(maxWidth, Math.max(minWidth, measureColumnContent(column))));
+    handleColumnResize(column, width, true);
+  };
+
+  const moveColumn = (key: string, toIndex: number) => {
+    const keys = orderedColumns.map(col => col.key);
+    const fromIndex = keys.indexOf(key);
+    const target = Math.min(Math.max(0, toIndex), keys.length - 1);
+    if (fromIndex === -1 || fromIndex === target) return;
+    keys.splice(fromIndex, 1);
+    keys.splice(target, 0, key);
+    setColumnOrder(keys);
+
+    const column = orderedColumns[fromIndex];
+    const visibleKeys = keys.filter(k => visibleColumns.some(col => col.key === k));
+    setReorderMessage(
+      `${column.title || column.key} moved to position ${visibleKeys.indexOf(key) + 1} of ${visibleKeys.length}`
+    );
+  };
+
+  const handleHeaderDragOver = (e: React.DragEvent<HTMLTableCellElement>, column: Column<T>) => {
+    if (!dragState) return;
+    e.preventDefault();
+    e.dataTransfer.dropEffect = 'move';
+    const rect = e.currentTarget.getBoundingClientRect();
+    const side = e.clientX < rect.left + rect.width / 2 ? 'before' : 'after';
+    if (dragState.over !== column.key || dragState.side !== side) {
+      setDragState({ ...dragState, over: column.key, side });
+    }
+  };
+
+  const handleHeaderDrop = (e: React.DragEvent<HTMLTableCellElement>, column: Column<T>) => {
+    if (!dragState) return;
+    e.preventDefault();
+    const keys = orderedColumns.map(col => col.key);
+    const fromIndex = keys.indexOf(dragState.from);
+    let toIndex = keys.indexOf(column.key) + (dragState.side === 'after' ? 1 : 0);
+    // Removing the dragged column first shifts later targets one to the left
+    if (fromIndex < toIndex) toIndex -= 1;
+    moveColumn(dragState.from, toIndex);
+    setDragState(null);
+  };
+
+  const handleHeaderKeyDown = (e: React.KeyboardEvent<HTMLTableCellElement>, column: Column<T>) => {
+    if (!reorderableColumns || !e.altKey || e.target !== e.currentTarget) return;
+    if (e.key !== 'ArrowLeft' && e.key !== 'ArrowRight') return;
+    e.preventDefault();
+    // Step over hidden columns to the neighbouring visible one
+    const neighbour = visibleColumns[visibleColumns.indexOf(column) + (e.key === 'ArrowLeft' ? -1 : 1)];
+    if (!neighbour) return;
+    focusHeaderKey.current = column.key;
+    moveColumn(column.key, orderedColumns.indexOf(neighbour));
+  };
+
+  const handleColumnVisibility = (key: string, visible: boolean) => {
+    const column = columns.find(col => col.key === key);
+    if (column?.hidden === undefined) {
+      setHiddenKeys(visible ? hiddenKeys.filter(k => k !== key) : [...hiddenKeys, key]);
+    }
+    onColumnVisibilityChange?.(key, visible);
+  };
+
+  const handleScroll = (e: React.UIEvent<HTMLDivElement>) => {
+    virtualRows.onScroll(e);
+    lastScrollTop.current = e.currentTarget.scrollTop;
+    if (!hasPinnedColumns) return;
+    const edges = getScrollEdges(e.currentTarget);
+    setOverflowLeft(edges.left);
+    setOverflowRight(edges.right);
+  };
+
+  const isEmpty = sortedData.length === 0;
+
+  const isLoadingMore = loadingMore || loadMoreState === 'loading';
+  const canLoadMore = infinite && hasMore && !!onLoadMore && !isLoadingMore && loadMoreState !== 'failed';
+
+  const loadMore = () => {
+    const result = onLoadMore?.();
+    if (!(result instanceof Promise)) {
+      setLoadMoreState('idle');
+      return;
+    }
+    setLoadMoreState('loading');
+    result.then(
+      () => setLoadMoreState('idle'),
+      () => setLoadMoreState('failed')
+    );
+  };
+  const latestLoadMore = useRef(loadMore);
+  useEffect(() => {
+    latestLoadMore.current = loadMore;
+  });
+
+  // Load once the end of the rows comes within the threshold of the scroll area, or of the
+  // viewport when the table does not scroll itself. Observing again after each load
+  // catches an end that is still in view.
+  useEffect(() => {
+    const sentinel = loadMoreRef.current;
+    if (!canLoadMore || !sentinel || typeof IntersectionObserver === 'undefined') return;
+    const observer = new IntersectionObserver(
+      entries => {
+        if (entries.some(entry => entry.isIntersecting)) latestLoadMore.current();
+      },
+      { root: stickyHeader ? scrollRef.current : null, rootMargin: `0px 0px ${loadMoreThreshold}px 0px` }
+    );
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [canLoadMore, data.length, stickyHeader, loadMoreThreshold]);
+
+  // Appended rows keep the scroll offset, whatever the browser's scroll anchoring
+  // made of the removed loading row; replaced rows, e.g. of a new query, start at the top
+  useLayoutEffect(() => {
+    const previous = previousData.current;
+    previousData.current = data;
+    const el = scrollRef.current;
+    if (!infinite || !el || previous === data) return;
+    const appended = previous.length > 0 && data.length >= previous.length && data[0] === previous[0];
+    el.scrollTop = appended ? lastScrollTop.current : 0;
+    lastScrollTop.current = el.scrollTop;
+    if (!appended) setLoadMoreState('idle');
+  }, [infinite, data]);
+
+  // Pinned offsets depend on rendered widths, so re-measure after layout and on resize
+  useLayoutEffect(() => {
+    const table = tableRef.current;
+    if (!hasPinnedColumns || !table) return;
+    const update = () => {
+      const next = measureHeaderWidths(table);
+      setHeaderWidths(prev => (sameWidths(prev, next) ? prev : next));
+      if (table.parentElement) {
+        const edges = getScrollEdges(table.parentElement);
+        setOverflowLeft(edges.left);
+        setOverflowRight(edges.right);
       }
+    };
+    update();
+    if (typeof ResizeObserver === 'undefined') return;
+    const observer = new ResizeObserver(update);
+    observer.observe(table);
+    return () => observer.disconnect();
+  }, [hasPinnedColumns, loading, isEmpty, displayColumns.length, columnWidths]);
+
+  // Keep focus on a header moved with the keyboard
+  useEffect(() => {
+    const key = focusHeaderKey.current;
+    if (!key) return;
+    focusHeaderKey.current = null;
+    tableRef.current
+      ?.querySelectorAll<HTMLElement>('th[data-column-key]')
+      .forEach(th => {
+        if (th.dataset.columnKey === key) th.focus();
+      });
+  }, [orderedColumns]);
+
+  const handlePageChange = (page: number) => {
+    const nextPage = Math.min(Math.max(1, page), Math.max(1, totalPages));
+    if (nextPage === currentPage) return;
+    setCurrentPage(nextPage);
+    emitQuery({ page: nextPage });
+  };
+
+  const handleExpand = (record: T, key: RowKey, expanded: boolean) => {
+    setExpandedKeys(expanded ? [...expandedKeys, key] : expandedKeys.filter(k => k !== key));
+    expandable?.onExpand?.(expanded, record);
+  };
+
+  const toggleGroup = (key: string) => {
+    setCollapsedGroups(
+      collapsedGroups.includes(key) ? collapsedGroups.filter(k => k !== key) : [...collapsedGroups, key]
+    );
+  };
+
+  const needsChildren = (record: T, key: RowKey) =>
+    !!loadChildren && getTreeChildren(record, key) === undefined && (hasChildren?.(record) ?? true);
+
+  const handleTreeExpand = async (record: T, key: RowKey, expanded: boolean) => {
+    if (expanded && loadChildren && needsChildren(record, key)) {
+      setLoadingChildren(prev => new Set(prev).add(key));
+      try {
+        const rows = await loadChildren(record);
+        setLoadedChildren(prev => new Map(prev).set(key, rows));
+      } catch {
+        // Stay collapsed so the next click retries; reporting is up to `loadChildren`
+        return;
+      } finally {
+        setLoadingChildren(prev => {
+          const next = new Set(prev);
+          next.delete(key);
+          return next;
+        });
+      }
+    }
+    const keys = latestTreeKeys.current;
+    if (expanded) {
+      if (!keys.includes(key)) setTreeKeys([...keys, key]);
+    } else {
+      setTreeKeys(keys.filter(k => k !== key));
+    }
+  };
+
+  // Records by key, for reporting selected rows in selection order
+  const recordsByKey = useMemo(() => {
+    if (treeIndex) return new Map(Array.from(treeIndex, ([key, node]) => [key, node.record]));
+    return new Map(data.map((record, index) => [resolveRowKey(record, index, rowKey), record]));
+  }, [treeIndex, data, rowKey]);
+
+  // Selected rows that are not in `data` any more, e.g. on another server page
+  const selectedRecordCache = useRef(new Map<RowKey, T>());
+
+  // Also remembers rows selected through `selectedRowKeys` while they are in `data`
+  useEffect(() => {
+    const cache = selectedRecordCache.current;
+    selectedRecordCache.current = new Map(
+      selectedKeys.flatMap((key): Array<[RowKey, T]> => {
+        const record = recordsByKey.get(key) ?? cache.get(key);
+        return record === undefined ? [] : [[key, record]];
+      })
+    );
+  }, [selectedKeys, recordsByKey]);
+
+  const getSelectedRecords = (keys: RowKey[]) =>
+    keys.flatMap(key => {
+      const record = recordsByKey.get(key) ?? selectedRecordCache.current.get(key);
+      return record === undefined ? [] : [record];
     });
+
+  // Every row in display order across all pages, for shift-click ranges
+  const orderedRowKeys = useMemo(() => {
+    if (groupedItems) return groupedItems.flat().flatMap(item => (item.type === 'row' ? [item.row.key] : []));
+    return flattenForest(
+      sortedData,
+      sortedForest.children,
+      (record, index) => resolveRowKey(record, index, rowKey),
+      expandedTreeRows
+    ).map(row => row.key);
+  }, [groupedItems, sortedData, sortedForest, rowKey, expandedTreeRows]);
+
+  // Keys of all rows matching the filters and search, including collapsed tree rows
+  const resultKeys = useMemo(
+    () => getForestKeys(sortedForest, (record, index) => resolveRowKey(record, index, rowKey)),
+    [sortedForest, rowKey]
+  );
+
+  // Last row toggled without Shift, where a shift-click range starts
+  const selectionAnchor = useRef<RowKey | null>(null);
+
+  // Applies a selection and reports it, remembering the records for when their rows are gone
+  const updateSelection = (keys: RowKey[]) => {
+    const entries = keys.flatMap((key): Array<[RowKey, T]> => {
+      const record = recordsByKey.get(key) ?? selectedRecordCache.current.get(key);
+      return record === undefined ? [] : [[key, record]];
+    });
+    selectedRecordCache.current = new Map(entries);
+    setSelectedKeys(keys);
+    onRowSelect?.(entries.map(([, record]) => record), keys);
+  };
+
+  const isMultiSelect = selectionMode === 'multiple';
+
+  // Rows outside `data` (e.g. on other server pages) count as selectable
+  const canSelectRow = (key: RowKey) => {
+    const record = recordsByKey.get(key);
+    return !isRowSelectable || record === undefined || isRowSelectable(record);
   };
 
-  // Handle row selection
-  const handleRowSelect = (rowKey: string | number, selected: boolean) => {
-    const newSelected = new Set(selectedRows);
-    if (selected) {
-      newSelected.add(rowKey);
+  const selectionLimitReached = isMultiSelect && maxSelection !== undefined && selectedKeys.length >= maxSelection;
+
+  // Appends `keys` in order, skipping locked rows and stopping at `maxSelection`
+  const addToSelection = (current: RowKey[], keys: RowKey[]) => {
+    const next = [...current];
+    const present = new Set(current);
+    for (const key of keys) {
+      if (maxSelection !== undefined && next.length >= maxSelection) break;
+      if (present.has(key) || !canSelectRow(key)) continue;
+      next.push(key);
+      present.add(key);
+    }
+    return next;
+  };
+
+  // Handle row selection; with `range`, every row between the anchor and this one follows it
+  const handleRowSelect = (key: RowKey, selected: boolean, range = false) => {
+    if (!canSelectRow(key)) return;
+    if (!isMultiSelect) {
+      selectionAnchor.current = key;
+      updateSelection(selected ? [key] : NO_KEYS);
+      return;
+    }
+
+    let targets = [key];
+    const from = range && selectionAnchor.current !== null ? orderedRowKeys.indexOf(selectionAnchor.current) : -1;
+    const to = orderedRowKeys.indexOf(key);
+    if (from !== -1 && to !== -1) {
+      targets = orderedRowKeys.slice(Math.min(from, to), Math.max(from, to) + 1);
     } else {
-      newSelected.delete(rowKey);
+      selectionAnchor.current = key;
     }
-    setSelectedRows(newSelected);
 
-    if (onRowSelect) {
-      const selectedData = data.filter((record, index) => 
-        newSelected.has(getRowKey(record, index))
-      );
-      onRowSelect(selectedData);
+    let next: RowKey[];
+    if (treeIndex) {
+      // Selection cascades to descendants, and parents follow their children
+      next = targets.reduce((keys, target) => toggleTreeSelection(treeIndex, keys, target, selected), selectedKeys);
+      if (selected) next = next.filter(k => selectedRows.has(k) || canSelectRow(k));
+      // A subtree that does not fit under the cap is not selected partially
+      if (maxSelection !== undefined && next.length > maxSelection && next.length > selectedKeys.length) return;
+    } else {
+      const targetSet = new Set(targets);
+      next = selected ? addToSelection(selectedKeys, targets) : selectedKeys.filter(k => !targetSet.has(k));
     }
+    updateSelection(next);
   };
 
-  // Handle select all
+  // Handle select all: adds or removes the current page, keeping rows selected on other pages
   const handleSelectAll = (selected: boolean) => {
-    const newSelected = new Set<string | number>();
-    if (selected) {
-      paginatedData.forEach((record, index) => {
-        newSelected.add(getRowKey(record, index));
+    const pageSelection = new Set<RowKey>();
+    pageRows.forEach(row => {
+      pageSelection.add(row.key);
+      if (treeIndex) getDescendantKeys(treeIndex, row.key).forEach(key => pageSelection.add(key));
+    });
+    updateSelection(
+      selected
+        ? addToSelection(selectedKeys, Array.from(pageSelection))
+        : // Locked rows keep their state either way
+          selectedKeys.filter(key => !pageSelection.has(key) || !canSelectRow(key))
+    );
+  };
+
+  // Locked rows do not count towards the header checkbox state
+  const selectablePageRows = pageRows.filter(row => canSelectRow(row.key));
+  const isAllSelected =
+    selectablePageRows.length > 0 && selectablePageRows.every(row => selectedRows.has(row.key));
+  const isIndeterminate = !isAllSelected && pageRows.some(row => selectedRows.has(row.key));
+
+  // Tree rows with some but not all descendants selected
+  const partiallySelected = useMemo(
+    () => (treeIndex ? getPartiallySelected(treeIndex, selectedRows) : null),
+    [treeIndex, selectedRows]
+  );
+
+  // Editable cells in Tab order: across each row, then down the page
+  const editableColumns = displayColumns.filter(column => column.editable);
+
+  const editors = useMemo(
+    () => new Map(columns.filter(column => column.editable).map(column => [column.key, resolveEditor(column, data)])),
+    [columns, data]
+  );
+  const getEditor = (column: Column<T>) => editors.get(column.key) ?? resolveEditor(column, data);
+
+  // A record as shown, including edits that are still being saved
+  const getDisplayRecord = (record: T, key: RowKey): T => {
+    const edits = pendingEdits.get(key);
+    if (!edits) return record;
+    const next = { ...record };
+    columns.forEach(column => {
+      const edit = edits[column.key];
+      if (edit) next[column.dataIndex] = edit.value as T[keyof T];
+    });
+    return next;
+  };
+
+  const startEdit = (row: TreeRow<T>, column: Column<T>) => {
+    const editor = getEditor(column);
+    const value = getDisplayRecord(row.record, row.key)[column.dataIndex];
+    setEditingCell({ rowKey: row.key, columnKey: column.key, draft: toDraft(editor.type, value) });
+  };
+
+  // Shows the values right away; each is dropped once saved (`data` has it then) or rejected
+  const showPendingEdits = (
+    cells: Array<{ rowKey: RowKey; columnKey: string; value: unknown }>,
+    result: Promise<unknown>
+  ) => {
+    const edits = cells.map(cell => ({ ...cell, edit: { value: cell.value } }));
+    setPendingEdits(prev => {
+      const next = new Map(prev);
+      edits.forEach(({ rowKey, columnKey, edit }) => next.set(rowKey, { ...next.get(rowKey), [columnKey]: edit }));
+      return next;
+    });
+    const settle = () =>
+      setPendingEdits(prev => {
+        const next = new Map(prev);
+        edits.forEach(({ rowKey, columnKey, edit }) => {
+          const rowEdits = next.get(rowKey);
+          // A later edit of the same cell replaced this one
+          if (rowEdits?.[columnKey] !== edit) return;
+          const rest = { ...rowEdits };
+          delete rest[columnKey];
+          if (Object.keys(rest).length === 0) next.delete(rowKey);
+          else next.set(rowKey, rest);
+        });
+        return next;
       });
+    result.then(settle, settle);
+  };
+
+  const saveCell = (row: TreeRow<T>, column: Column<T>, value: unknown) => {
+    const result = onCellEdit?.(row.record, column.key, value);
+    if (result instanceof Promise) showPendingEdits([{ rowKey: row.key, columnKey: column.key, value }], result);
+  };
+
+  // Validates and saves the draft; with `move`, Tab continues in the adjacent editable cell
+  const commitEdit = (move?: 'next' | 'previous') => {
+    if (!editingCell) return;
+    const position = pageRows.findIndex(row => row.key === editingCell.rowKey);
+    const columnIndex = editableColumns.findIndex(column => column.key === editingCell.columnKey);
+    if (position === -1 || columnIndex === -1) {
+      setEditingCell(null);
+      return;
     }
-    setSelectedRows(newSelected);
+    const row = pageRows[position];
+    const column = editableColumns[columnIndex];
+    const record = getDisplayRecord(row.record, row.key);
 
-    if (onRowSelect) {
-      const selectedData = selected ? paginatedData : [];
-      onRowSelect(selectedData);
+    const parsed = fromDraft(getEditor(column).type, editingCell.draft);
+    if ('error' in parsed) {
+      setEditingCell({ ...editingCell, error: parsed.error });
+      return;
     }
+    const error = column.validate?.(parsed.value, record);
+    if (error) {
+      setEditingCell({ ...editingCell, error });
+      return;
+    }
+
+    if (!Object.is(parsed.value, record[column.dataIndex])) saveCell(row, column, parsed.value);
+
+    const target = move ? position * editableColumns.length + columnIndex + (move === 'next' ? 1 : -1) : -1;
+    if (target >= 0 && target < pageRows.length * editableColumns.length) {
+      startEdit(pageRows[Math.floor(target / editableColumns.length)], editableColumns[target % editableColumns.length]);
+    } else {
+      setEditingCell(null);
+    }
+  };
+
+  // Return focus to the cell when its editor closed while focused, e.g. on Enter or Escape
+  useEffect(() => {
+    if (editingCell) {
+      lastEditedCell.current = editingCell;
+      return;
+    }
+    const cell = lastEditedCell.current;
+    lastEditedCell.current = null;
+    if (!cell || (document.activeElement && document.activeElement !== document.body)) return;
+    findCell(tableRef.current, cell.rowKey, cell.columnKey)?.focus();
+  }, [editingCell]);
+
+  // Drafts of a row in edit mode, started from its current values
+  const getRowDraft = (row: TreeRow<T>): RowDraft => {
+    if (rowDraft?.rowKey === row.key) return rowDraft;
+    const drafts: Record<string, unknown> = {};
+    editableColumns.forEach(column => {
+      drafts[column.key] = toDraft(getEditor(column).type, row.record[column.dataIndex]);
+    });
+    return { rowKey: row.key, drafts, errors: {} };
+  };
+
+  const isDraftDirty = (row: TreeRow<T>, draft: RowDraft, column: Column<T>) =>
+    !Object.is(draft.drafts[column.key], toDraft(getEditor(column).type, row.record[column.dataIndex]));
+
+  const startRowEdit = (row: TreeRow<T>) => {
+    setEditingCell(null);
+    setRowDraft(null);
+    setEditingRowKey(row.key);
   };
 
-  const isAllSelected = paginatedData.length > 0 && 
-    paginatedData.every((record, index) => selectedRows.has(getRowKey(record, index)));
-  const isIndeterminate = !isAllSelected && 
-    paginatedData.some((record, index) => selectedRows.has(getRowKey(record, index)));
+  const cancelRowEdit = (row: TreeRow<T>) => {
+    setRowDraft(null);
+    setEditingRowKey(null);
+    rowEditing?.onCancel?.(row.record);
+  };
+
+  // Validates every field, then the row as a whole, and saves the changed fields.
+  // Throwing validators and save handlers show their message like a rejected save.
+  const saveRow = async (row: TreeRow<T>) => {
+    if (!rowEditing) return;
+    const draft = getRowDraft(row);
+    try {
+      const values = { ...row.record };
+      const changes: Partial<T> = {};
+      const errors: Record<string, string> = {};
+      editableColumns.forEach(column => {
+        const parsed = fromDraft(getEditor(column).type, draft.drafts[column.key]);
+        if ('error' in parsed) {
+          errors[column.key] = parsed.error;
+          return;
+        }
+        values[column.dataIndex] = parsed.value as T[keyof T];
+        if (isDraftDirty(row, draft, column)) changes[column.dataIndex] = parsed.value as T[keyof T];
+      });
+      editableColumns.forEach(column => {
+        const error = errors[column.key] ? undefined : column.validate?.(values[column.dataIndex], values);
+        if (error) errors[column.key] = error;
+      });
+      Object.entries(rowEditing.validate?.(values, row.record) ?? {}).forEach(([key, error]) => {
+        if (error && !errors[key]) errors[key] = error;
+      });
+      if (Object.keys(errors).length > 0) {
+        setRowDraft({ ...draft, errors, saveError: undefined });
+        return;
+      }
+
+      const result = rowEditing.onSave(row.record, changes);
+      if (result instanceof Promise) {
+        setRowDraft({ ...draft, errors: {}, saving: true, saveError: undefined });
+        await result;
+      }
+    } catch (reason) {
+      setRowDraft({ ...draft, errors: {}, saveError: reason instanceof Error ? reason.message : 'Save failed' });
+      return;
+    }
+    setRowDraft(null);
+    setEditingRowKey(null);
+  };
+
+  // Return focus to the row's Edit button when edit mode ended from inside the row
+  useEffect(() => {
+    if (editingRowKey !== null) {
+      lastEditingRowKey.current = editingRowKey;
+      return;
+    }
+    const key = lastEditingRowKey.current;
+    lastEditingRowKey.current = null;
+    if (key === null || (document.activeElement && document.activeElement !== document.body)) return;
+    findCell(tableRef.current, key, ACTION_COLUMN_KEY)?.querySelector('button')?.focus();
+  }, [editingRowKey]);
+
+  // Keyboard navigation: rows and columns of the grid, including the header row
+  const gridRowKeys: RowKey[] = [HEADER_ROW_KEY, ...pageKeys];
+  const gridColumnKeys = [
+    ...(selectable ? [SELECTION_COLUMN_KEY] : []),
+    ...(expandable ? [EXPAND_COLUMN_KEY] : []),
+    ...displayColumns.map(column => column.key),
+    ...(rowEditing ? [ACTION_COLUMN_KEY] : []),
+  ];
+  // The cell holding the tab stop; once its row is gone the first row of the page takes over
+  const activeRow = activeCell && gridRowKeys.includes(activeCell.row) ? activeCell.row : pageKeys[0] ?? HEADER_ROW_KEY;
+  const activeColumn =
+    activeCell && gridColumnKeys.includes(activeCell.column) ? activeCell.column : gridColumnKeys[0];
+
+  const getGridTabIndex = (row: RowKey, column: string) =>
+    keyboardNavigation ? (row === activeRow && column === activeColumn ? 0 : -1) : undefined;
+  // Controls inside cells leave the tab sequence to the grid's single tab stop
+  const controlTabIndex = keyboardNavigation ? -1 : undefined;
+
+  // Grid position of the cell containing `el`
+  const getGridPosition = (el: HTMLElement) => {
+    const cell = el.closest<HTMLElement>('td[data-column-key], th[data-column-key]');
+    const rowKey = cell?.parentElement?.dataset.rowKey;
+    const row = gridRowKeys.find(key => String(key) === rowKey);
+    if (!cell || row === undefined || !tableRef.current?.contains(cell)) return null;
+    return { cell, row, column: cell.dataset.columnKey as string };
+  };
+
+  const moveGridFocus = (rowIndex: number, columnIndex: number) => {
+    const row = gridRowKeys[Math.min(Math.max(0, rowIndex), gridRowKeys.length - 1)];
+    const column = gridColumnKeys[Math.min(Math.max(0, columnIndex), gridColumnKeys.length - 1)];
+    setActiveCell({ row, column });
+    virtualRows.scrollToIndex(gridRowKeys.indexOf(row) - 1, scrollRef.current);
+    const cell = findCell(tableRef.current, row, column);
+    if (cell) cell.focus();
+    else pendingGridFocus.current = true;
+  };
+
+  // Enter: sorts from the header, toggles groups, presses the cell's button or clicks the row
+  const activateGridCell = (row: RowKey, column: string, cell: HTMLElement, shiftKey: boolean) => {
+    if (row === HEADER_ROW_KEY) {
+      if (column === SELECTION_COLUMN_KEY && isMultiSelect) handleSelectAll(!isAllSelected);
+      const sortColumn = displayColumns.find(col => col.key === column);
+      if (sortColumn) handleSort(sortColumn, shiftKey);
+      return;
+    }
+    const item = pageItems.find(pageItem => getItemKey(pageItem) === row);
+    if (!item) return;
+    if (item.type === 'group') {
+      toggleGroup(item.group.key);
+      return;
+    }
+    if (column === SELECTION_COLUMN_KEY) {
+      handleRowSelect(row, !selectedRows.has(row));
+      return;
+    }
+    const button = cell.querySelector<HTMLButtonElement>('button:not(:disabled)');
+    if (button) button.click();
+    else onRowClick?.(item.row.record, pageItems.indexOf(item));
+  };
+
+  const handleGridKeyDown = (e: React.KeyboardEvent<HTMLTableElement>) => {
+    if (!keyboardNavigation || e.defaultPrevented) return;
+    const position = getGridPosition(e.target as HTMLElement);
+    // Keys typed into controls inside a cell are theirs
+    if (!position || position.cell !== e.target) return;
+    // Shift+Arrow extends the cell range instead
+    if (cellSelection && e.shiftKey && RANGE_STEPS[e.key]) return;
+
+    const rowIndex = gridRowKeys.indexOf(position.row);
+    const columnIndex = gridColumnKeys.indexOf(position.column);
+    const pageStep = virtualized
+      ? Math.max(1, Math.floor(height / (rowHeight ?? defaultRowHeight[size])))
+      : GRID_PAGE_STEP;
+    const lastRow = gridRowKeys.length - 1;
+    const lastColumn = gridColumnKeys.length - 1;
+
+    switch (e.key) {
+      case 'ArrowUp':
+        moveGridFocus(rowIndex - 1, columnIndex);
+        break;
+      case 'ArrowDown':
+        moveGridFocus(rowIndex + 1, columnIndex);
+        break;
+      case 'ArrowLeft':
+        moveGridFocus(rowIndex, columnIndex - 1);
+        break;
+      case 'ArrowRight':
+        moveGridFocus(rowIndex, columnIndex + 1);
+        break;
+      case 'Home':
+        moveGridFocus(e.ctrlKey ? 0 : rowIndex, 0);
+        break;
+      case 'End':
+        moveGridFocus(e.ctrlKey ? lastRow : rowIndex, lastColumn);
+        break;
+      case 'PageUp':
+        moveGridFocus(rowIndex - pageStep, columnIndex);
+        break;
+      case 'PageDown':
+        moveGridFocus(rowIndex + pageStep, columnIndex);
+        break;
+      case 'Enter':
+        activateGridCell(position.row, position.column, position.cell, e.shiftKey);
+        break;
+      case ' ':
+        if (!selectable) return;
+        if (position.row === HEADER_ROW_KEY) {
+          if (isMultiSelect) handleSelectAll(!isAllSelected);
+        } else if (pageRows.some(row => row.key === position.row)) {
+          handleRowSelect(position.row, !selectedRows.has(position.row), e.shiftKey);
+        }
+        break;
+      default:
+        return;
+    }
+    e.preventDefault();
+  };
+
+  const handleGridFocus = (e: React.FocusEvent<HTMLTableElement>) => {
+    const position = getGridPosition(e.target);
+    if (!position) return;
+    lastFocusedCell.current = position.cell;
+    if (position.row !== activeRow || position.column !== activeColumn) {
+      setActiveCell({ row: position.row, column: position.column });
+    }
+  };
+
+  const handleGridBlur = (e: React.FocusEvent<HTMLTableElement>) => {
+    if (e.relatedTarget && !e.currentTarget.contains(e.relatedTarget as Node)) lastFocusedCell.current = null;
+  };
+
+  // Focus the active cell once a row scrolled into view has rendered, or when the
+  // focused cell's row was removed, e.g. by a sort or page change
+  useEffect(() => {
+    if (!keyboardNavigation) return;
+    const lastCell = lastFocusedCell.current;
+    const focusLost =
+      !!lastCell && !lastCell.isConnected && (!document.activeElement || document.activeElement === document.body);
+    if (!pendingGridFocus.current && !focusLost) return;
+    const cell = findCell(tableRef.current, activeRow, activeColumn);
+    if (!cell) return;
+    pendingGridFocus.current = false;
+    cell.focus();
+  });
+
+  // Cell range selection: rows of the page by columns of the table
+  const getRangeBounds = (range: CellRange | null) => {
+    if (!range) return null;
+    const rows = [range.anchor, range.focus].map(cell => pageRows.findIndex(row => row.key === cell.rowKey));
+    const cols = [range.anchor, range.focus].map(cell =>
+      displayColumns.findIndex(column => column.key === cell.columnKey)
+    );
+    if (rows.includes(-1) || cols.includes(-1)) return null;
+    return { top: Math.min(...rows), bottom: Math.max(...rows), left: Math.min(...cols), right: Math.max(...cols) };
+  };
+  const rangeBounds = cellSelection ? getRangeBounds(cellRange) : null;
+  const rangeRowIndexes = new Map(rangeBounds ? pageRows.map((row, index) => [row.key, index]) : []);
+
+  // The selected range, or else the focused data cell
+  const getActiveRange = (target: HTMLElement): CellRange | null => {
+    if (rangeBounds) return cellRange;
+    const position = getGridPosition(target);
+    if (!position || !displayColumns.some(column => column.key === position.column)) return null;
+    const cell = { rowKey: position.row, columnKey: position.column };
+    return { anchor: cell, focus: cell };
+  };
+
+  const isInTextField = (target: EventTarget) => !!(target as HTMLElement).closest?.(TEXT_FIELD_SELECTOR);
+
+  const handleRangeMouseDown = (e: React.MouseEvent, rowKey: RowKey, columnKey: string) => {
+    if (e.button !== 0 || (e.target as HTMLElement).closest(INTERACTIVE_SELECTOR)) return;
+    const cell = { rowKey, columnKey };
+    setCellRange(e.shiftKey && rangeBounds && cellRange ? { anchor: cellRange.anchor, focus: cell } : { anchor: cell, focus: cell });
+    rangeDragging.current = true;
+    document.addEventListener('mouseup', () => (rangeDragging.current = false), { once: true });
+  };
+
+  const extendRangeByDrag = (rowKey: RowKey, columnKey: string) => {
+    if (!rangeDragging.current) return;
+    setCellRange(prev => prev && { anchor: prev.anchor, focus: { rowKey, columnKey } });
+  };
+
+  const handleRangeKeyDown = (e: React.KeyboardEvent<HTMLDivElement>) => {
+    if (!cellSelection || e.defaultPrevented || isInTextField(e.target)) return;
+    if (e.key === 'Escape') {
+      setCellRange(null);
+      setPasteErrors(new Map());
+      return;
+    }
+    const step = RANGE_STEPS[e.key];
+    if (!step) return;
+    // Plain arrow keys move on from the range
+    if (!e.shiftKey) {
+      setCellRange(null);
+      return;
+    }
+    const range = getActiveRange(e.target as HTMLElement);
+    if (!range || !getRangeBounds(range)) return;
+    const rowIndex = pageRows.findIndex(row => row.key === range.focus.rowKey) + step[0];
+    const columnIndex = displayColumns.findIndex(column => column.key === range.focus.columnKey) + step[1];
+    const row = pageRows[Math.min(Math.max(0, rowIndex), pageRows.length - 1)];
+    const column = displayColumns[Math.min(Math.max(0, columnIndex), displayColumns.length - 1)];
+    setCellRange({ anchor: range.anchor, focus: { rowKey: row.key, columnKey: column.key } });
+    e.preventDefault();
+  };
+
+  const handleRangeCopy = (e: React.ClipboardEvent<HTMLDivElement>) => {
+    if (!cellSelection || isInTextField(e.target)) return;
+    const bounds = getRangeBounds(getActiveRange(e.target as HTMLElement));
+    if (!bounds) return;
+    const records = pageRows
+      .slice(bounds.top, bounds.bottom + 1)
+      .map(row => getDisplayRecord(row.record, row.key));
+    const sheet = createExportSheet(records, displayColumns.slice(bounds.left, bounds.right + 1));
+    // Copied values stay verbatim so a range pastes back unchanged
+    e.clipboardData.setData(
+      'text/plain',
+      sheetToCsv(sheet, { delimiter: '\t', omitHeader: true, escapeFormulas: false })
+    );
+    e.clipboardData.setData('text/html', sheetToHtml(sheet, { omitHeader: true }));
+    e.preventDefault();
+  };
+
+  // Lays the pasted grid out from the range's top-left cell, one column per pasted
+  // column; a single value fills the whole range. Read-only cells are left as they are.
+  const handleRangePaste = (e: React.ClipboardEvent<HTMLDivElement>) => {
+    if (!cellSelection || !onPaste || isInTextField(e.target)) return;
+    const bounds = getRangeBounds(getActiveRange(e.target as HTMLElement));
+    const grid = parseDelimited(e.clipboardData.getData('text/plain'), '\t');
+    if (!bounds || grid.length === 0) return;
+    e.preventDefault();
+
+    const fill = grid.length === 1 && grid[0].length === 1;
+    const rows = pageRows.slice(bounds.top, fill ? bounds.bottom + 1 : bounds.top + grid.length);
+    const width = fill ? bounds.right - bounds.left + 1 : Math.max(...grid.map(values => values.length));
+    const targetColumns = displayColumns.slice(bounds.left, bounds.left + width);
+    const changes: CellChange<T>[] = [];
+    const pending: Array<{ rowKey: RowKey; columnKey: string; value: unknown }> = [];
+    const errors = new Map<RowKey, Record<string, string>>();
+    rows.forEach((row, rowIndex) => {
+      // Rows in edit mode keep their drafts
+      if (rowEditing && row.key === editingRowKey) return;
+      const record = getDisplayRecord(row.record, row.key);
+      targetColumns.forEach((column, columnIndex) => {
+        const text = fill ? grid[0][0] : grid[rowIndex][columnIndex];
+        if (text === undefined) return;
+        if (!column.editable) {
+          // Unchanged values, e.g. of a copied range pasted back, are not worth a mention
+          if (text !== formatText(getExportValue(column, record))) {
+            errors.set(row.key, { ...errors.get(row.key), [column.key]: 'This column is read-only' });
+          }
+          return;
+        }
+        const parsed = parseCellText(getEditor(column), text);
+        const error = 'error' in parsed ? parsed.error : column.validate?.(parsed.value, record);
+        if (error) {
+          errors.set(row.key, { ...errors.get(row.key), [column.key]: error });
+        } else if (!('error' in parsed) && !Object.is(parsed.value, record[column.dataIndex])) {
+          changes.push({ record: row.record, key: column.key, value: parsed.value });
+          pending.push({ rowKey: row.key, columnKey: column.key, value: parsed.value });
+        }
+      });
+    });
+
+    setPasteErrors(errors);
+    if (!fill && rows.length > 0 && targetColumns.length > 0) {
+      setCellRange({
+        anchor: { rowKey: rows[0].key, columnKey: displayColumns[bounds.left].key },
+        focus: { rowKey: rows[rows.length - 1].key, columnKey: targetColumns[targetColumns.length - 1].key },
+      });
+    }
+    if (changes.length === 0) return;
+    const result = onPaste(changes);
+    if (result instanceof Promise) showPendingEdits(pending, result);
+  };
 
   // Size styles
   const sizeStyles = {
@@ -185,49 +1780,918 @@ export function DataTable<T extends Record<string, any>>({
     'border-collapse',
     sizeStyles[size],
     bordered ? 'border border-neutral-200 dark:border-neutral-700' : '',
+    // Fixed layout makes header widths authoritative once columns can be resized
+    hasResizableColumns ? 'table-fixed' : '',
     className,
   ].filter(Boolean).join(' ');
 
+  // Sticky offsets of pinned columns, stacked from the measured header widths
+  const leftPinned = displayColumns.filter(col => col.fixed === 'left');
+  const rightPinned = displayColumns.filter(col => col.fixed === 'right');
+  const pinOffsets: Record<string, number> = {};
+  const selectionWidth = selectable ? headerWidths[SELECTION_COLUMN_KEY] ?? 0 : 0;
+  let leftOffset = pinLeadingColumns ? selectionWidth + (expandable ? headerWidths[EXPAND_COLUMN_KEY] ?? 0 : 0) : 0;
+  leftPinned.forEach(col => {
+    pinOffsets[col.key] = leftOffset;
+    leftOffset += headerWidths[col.key] ?? 0;
+  });
+  let rightOffset = pinTrailingColumns ? headerWidths[ACTION_COLUMN_KEY] ?? 0 : 0;
+  [...rightPinned].reverse().forEach(col => {
+    pinOffsets[col.key] = rightOffset;
+    rightOffset += headerWidths[col.key] ?? 0;
+  });
+
+  const getPinnedStyle = (column: Column<T>): React.CSSProperties | undefined => {
+    if (column.fixed === 'left') return { position: 'sticky', left: pinOffsets[column.key], zIndex: 1 };
+    if (column.fixed === 'right') return { position: 'sticky', right: pinOffsets[column.key], zIndex: 1 };
+    return undefined;
+  };
+
+  // Shadow on the inner edge of the pinned groups while content scrolls beneath them
+  const getPinnedShadow = (column: Column<T>) => {
+    if (overflowLeft && column === leftPinned[leftPinned.length - 1]) {
+      return 'shadow-[6px_0_6px_-6px_rgba(0,0,0,0.3)]';
+    }
+    if (overflowRight && column === rightPinned[0]) {
+      return 'shadow-[-6px_0_6px_-6px_rgba(0,0,0,0.3)]';
+    }
+    return '';
+  };
+
+  const selectionPinStyle: React.CSSProperties | undefined = pinLeadingColumns
+    ? { position: 'sticky', left: 0, zIndex: 1 }
+    : undefined;
+  const expandPinStyle: React.CSSProperties | undefined = pinLeadingColumns
+    ? { position: 'sticky', left: selectionWidth, zIndex: 1 }
+    : undefined;
+  const actionsPinStyle: React.CSSProperties | undefined = pinTrailingColumns
+    ? { position: 'sticky', right: 0, zIndex: 1 }
+    : undefined;
+
+  const getSortRule = (column: Column<T>) => {
+    const priority = sortState.findIndex(rule => rule.column === column.key);
+    return priority === -1 ? null : { ...sortState[priority], priority: priority + 1 };
+  };
+
+  const getAriaSort = (column: Column<T>) => {
+    const rule = getSortRule(column);
+    if (rule) return rule.direction === 'asc' ? 'ascending' : 'descending';
+    return column.sortable ? 'none' : undefined;
+  };
+
   const getSortIcon = (column: Column<T>) => {
     if (!column.sortable) return null;
     
-    const isActive = sortState.column === column.key;
-    const direction = isActive ? sortState.direction : null;
+    const rule = getSortRule(column);
+    const direction = rule?.direction ?? null;
 
     return (
-      <span className="ml-2 inline-flex flex-col">
-        <svg
-          className={`w-3 h-3 ${
-            direction === 'asc' ? 'text-blue-600 dark:text-blue-400' : 'text-neutral-400'
-          } -mb-1`}
-          fill="currentColor"
-          viewBox="0 0 20 20"
-        >
-          <path fillRule="evenodd" d="M14.707 12.707a1 1 0 01-1.414 0L10 9.414l-3.293 3.293a1 1 0 01-1.414-1.414l4-4a1 1 0 011.414 0l4 4a1 1 0 010 1.414z" clipRule="evenodd" />
-        </svg>
-        <svg
-          className={`w-3 h-3 ${
-            direction === 'desc' ? 'text-blue-600 dark:text-blue-400' : 'text-neutral-400'
-          }`}
-          fill="currentColor"
-          viewBox="0 0 20 20"
-        >
-          <path fillRule="evenodd" d="M5.293 7.293a1 1 0 011.414 0L10 10.586l3.293-3.293a1 1 0 111.414 1.414l-4 4a1 1 0 01-1.414 0l-4-4a1 1 0 010-1.414z" clipRule="evenodd" />
-        </svg>
+      <span className="ml-2 inline-flex items-center">
+        <span className="inline-flex flex-col">
+          <svg
+            className={`w-3 h-3 ${
+              direction === 'asc' ? 'text-blue-600 dark:text-blue-400' : 'text-neutral-400'
+            } -mb-1`}
+            fill="currentColor"
+            viewBox="0 0 20 20"
+          >
+            <path fillRule="evenodd" d="M14.707 12.707a1 1 0 01-1.414 0L10 9.414l-3.293 3.293a1 1 0 01-1.414-1.414l4-4a1 1 0 011.414 0l4 4a1 1 0 010 1.414z" clipRule="evenodd" />
+          </svg>
+          <svg
+            className={`w-3 h-3 ${
+              direction === 'desc' ? 'text-blue-600 dark:text-blue-400' : 'text-neutral-400'
+            }`}
+            fill="currentColor"
+            viewBox="0 0 20 20"
+          >
+            <path fillRule="evenodd" d="M5.293 7.293a1 1 0 011.414 0L10 10.586l3.293-3.293a1 1 0 111.414 1.414l-4 4a1 1 0 01-1.414 0l-4-4a1 1 0 010-1.414z" clipRule="evenodd" />
+          </svg>
+        </span>
+        {rule && sortState.length > 1 && (
+          <span className="ml-0.5 text-xs font-semibold text-blue-600 dark:text-blue-400">
+            <span className="sr-only">sort priority </span>
+            {rule.priority}
+          </span>
+        )}
       </span>
     );
   };
 
+  const renderHeaderCell = (column: Column<T>) => {
+    const isFiltered = isFilterActive(filterState[column.key]);
+    const width = getColumnWidth(column);
+    const dropSide = dragState?.over === column.key && dragState.from !== column.key ? dragState.side : undefined;
+    // Values on other server pages are unknown, so enum filters without options take free text
+    const columnFilter: ColumnFilter | undefined =
+      isServerMode && column.filter?.type === 'enum' && !column.filter.options ? { type: 'text' } : column.filter;
+
+    return (
+      <th
+        key={column.key}
+        className={`${cellPadding[size]} text-left font-medium text-neutral-900 dark:text-neutral-100 ${
+          column.sortable ? 'cursor-pointer hover:bg-neutral-100 dark:hover:bg-neutral-700 user-select-none' : ''
+        } ${
+          isFiltered ? 'bg-blue-50 dark:bg-blue-900/20' : column.fixed ? 'bg-neutral-50 dark:bg-neutral-800' : ''
+        } ${isColumnResizable(column) ? 'relative' : ''} ${
+          dragState?.from === column.key ? 'opacity-50' : ''
+        } ${
+          dropSide === 'before'
+            ? 'shadow-[inset_3px_0_0_0_#3b82f6]'
+            : dropSide === 'after'
+            ? 'shadow-[inset_-3px_0_0_0_#3b82f6]'
+            : getPinnedShadow(column)
+        }`}
+        scope="col"
+        style={{
+          width,
+          minWidth: column.minWidth,
+          maxWidth: column.maxWidth,
+          textAlign: column.align || 'left',
+          ...getPinnedStyle(column),
+        }}
+        data-pinned={column.fixed}
+        data-column-key={column.key}
+        tabIndex={keyboardNavigation ? getGridTabIndex(HEADER_ROW_KEY, column.key) : reorderableColumns ? 0 : undefined}
+        draggable={reorderableColumns || undefined}
+        onDragStart={reorderableColumns ? (e) => {
+          e.dataTransfer.effectAllowed = 'move';
+          e.dataTransfer.setData('text/plain', column.key);
+          setDragState({ from: column.key });
+        } : undefined}
+        onDragOver={reorderableColumns ? (e) => handleHeaderDragOver(e, column) : undefined}
+        onDrop={reorderableColumns ? (e) => handleHeaderDrop(e, column) : undefined}
+        onDragEnd={reorderableColumns ? () => setDragState(null) : undefined}
+        onKeyDown={(e) => handleHeaderKeyDown(e, column)}
+        onClick={(e) => handleSort(column, e.shiftKey)}
+        aria-sort={getAriaSort(column)}
+        data-filtered={isFiltered || undefined}
+      >
+        <div className="flex items-center">
+          {column.title}
+          {getSortIcon(column)}
+          {columnFilter && (
+            <FilterPopover
+              title={column.title}
+              filter={columnFilter}
+              value={filterState[column.key]}
+              distinctValues={columnFilter.type === 'enum' && !columnFilter.options ? getDistinctValues(data, column) : []}
+              onChange={(value) => handleFilterChange(column, value)}
+            />
+          )}
+          {isFiltered && <span className="sr-only">(filtered)</span>}
+        </div>
+        {isColumnResizable(column) && (
+          <ColumnResizer
+            title={column.title}
+            width={typeof width === 'number' ? width : undefined}
+            minWidth={column.minWidth ?? DEFAULT_MIN_COLUMN_WIDTH}
+            maxWidth={column.maxWidth ?? Infinity}
+            onResize={(next) => handleColumnResize(column, next, false)}
+            onResizeEnd={(next) => handleColumnResize(column, next, true)}
+            onAutoFit={() => handleAutoFit(column)}
+          />
+        )}
+      </th>
+    );
+  };
+
+  const renderHeader = () => (
+    <thead className={`bg-neutral-50 dark:bg-neutral-800 ${stickyHeader ? 'sticky top-0 z-10' : ''}`}>
+      <tr aria-rowindex={virtualized ? 1 : undefined} data-row-key={HEADER_ROW_KEY}>
+        {selectable && (
+          <th 
+            className={`${cellPadding[size]} text-left font-medium text-neutral-900 dark:text-neutral-100 ${
+              pinLeadingColumns ? 'bg-neutral-50 dark:bg-neutral-800' : ''
+            }`}
+            scope="col"
+            style={selectionPinStyle}
+            data-column-key={SELECTION_COLUMN_KEY}
+            tabIndex={getGridTabIndex(HEADER_ROW_KEY, SELECTION_COLUMN_KEY)}
+          >
+            {isMultiSelect ? (
+              <input
+                type="checkbox"
+                className="rounded border-neutral-300 text-blue-600 focus:ring-blue-500"
+                tabIndex={controlTabIndex}
+                checked={isAllSelected}
+                ref={(input) => {
+                  if (input) input.indeterminate = isIndeterminate;
+                }}
+                onChange={(e) => handleSelectAll(e.target.checked)}
+                disabled={selectablePageRows.length === 0 || (selectionLimitReached && !isAllSelected)}
+                aria-label="Select all rows"
+              />
+            ) : (
+              <span className="sr-only">Select</span>
+            )}
+          </th>
+        )}
+        {expandable && (
+          <th
+            className={`${cellPadding[size]} w-12 ${pinLeadingColumns ? 'bg-neutral-50 dark:bg-neutral-800' : ''}`}
+            scope="col"
+            style={expandPinStyle}
+            data-column-key={EXPAND_COLUMN_KEY}
+            tabIndex={getGridTabIndex(HEADER_ROW_KEY, EXPAND_COLUMN_KEY)}
+          >
+            <span className="sr-only">Row details</span>
+          </th>
+        )}
+        {displayColumns.map(renderHeaderCell)}
+        {rowEditing && (
+          <th
+            className={`${cellPadding[size]} w-px ${pinTrailingColumns ? 'bg-neutral-50 dark:bg-neutral-800' : ''}`}
+            scope="col"
+            style={actionsPinStyle}
+            data-column-key={ACTION_COLUMN_KEY}
+            tabIndex={getGridTabIndex(HEADER_ROW_KEY, ACTION_COLUMN_KEY)}
+          >
+            <span className="sr-only">Actions</span>
+          </th>
+        )}
+      </tr>
+    </thead>
+  );
+
   const renderCell = (column: Column<T>, record: T, index: number) => {
     const value = record[column.dataIndex];
-    
-    if (column.render) {
-      return column.render(value, record, index);
+    const content = column.render ? column.render(value, record, index) : value?.toString() ?? '';
+
+    if (searchQuery && searchColumns.includes(column)) {
+      return highlightMatches(content, searchQuery);
     }
-    
-    return value?.toString() ?? '';
+    return content;
+  };
+
+  // Chevron for tree rows with children; leaves get a spacer so cells line up
+  const renderTreeToggle = ({ record, key }: TreeRow<T>) => {
+    const nested = sortedForest.children.get(record);
+    if (!nested && !needsChildren(record, key)) {
+      return <span className="inline-block w-6 h-6 mr-1 shrink-0" aria-hidden="true" />;
+    }
+    const isOpen = !!nested && expandedTreeRows.has(key);
+    const isLoading = loadingChildren.has(key);
+    const label = String(record[displayColumns[0].dataIndex] ?? key);
+    return (
+      <button
+        type="button"
+        className="inline-flex items-center justify-center w-6 h-6 mr-1 shrink-0 rounded text-neutral-500 hover:bg-neutral-200 dark:hover:bg-neutral-700 focus:outline-none focus:ring-2 focus:ring-blue-500"
+        tabIndex={controlTabIndex}
+        onClick={(e) => {
+          e.stopPropagation();
+          if (!isLoading) handleTreeExpand(record, key, !isOpen);
+        }}
+        aria-expanded={isOpen}
+        aria-busy={isLoading || undefined}
+        aria-label={`${isOpen ? 'Collapse' : 'Expand'} ${label}`}
+      >
+        {isLoading ? (
+          <svg className="animate-spin w-4 h-4" fill="none" viewBox="0 0 24 24" aria-hidden="true">
+            <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4" />
+            <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8v4a4 4 0 00-4 4H4z" />
+          </svg>
+        ) : (
+          <svg
+            className={`w-4 h-4 transition-transform ${isOpen ? 'rotate-90' : ''}`}
+            fill="currentColor"
+            viewBox="0 0 20 20"
+            aria-hidden="true"
+          >
+            <path fillRule="evenodd" d="M7.293 14.707a1 1 0 010-1.414L10.586 10 7.293 6.707a1 1 0 011.414-1.414l4 4a1 1 0 010 1.414l-4 4a1 1 0 01-1.414 0z" clipRule="evenodd" />
+          </svg>
+        )}
+      </button>
+    );
+  };
+
+  const renderRow = (row: TreeRow<T>, index: number) => {
+    const { record, key } = row;
+    const shownRecord = getDisplayRecord(record, key);
+    const draft = rowEditing && editingRowKey === key ? getRowDraft(row) : null;
+    const isDirty = !!draft && editableColumns.some(column => isDraftDirty(row, draft, column));
+    const isSelected = selectedRows.has(key);
+    const isPartiallySelected = partiallySelected?.has(key) ?? false;
+    const isRowSelectableKey = canSelectRow(key);
+    const canExpand = expandable ? expandable.rowExpandable?.(record) ?? true : false;
+    const isExpanded = canExpand && expandedKeys.includes(key);
+    const detailId = `${detailIdPrefix}-detail-${key}`;
+    // Pinned cells need an opaque background so scrolled content stays hidden behind them
+    const pinnedBackground = isSelected
+      ? 'bg-blue-50 dark:bg-blue-950'
+      : striped && index % 2 === 1
+      ? 'bg-neutral-50 dark:bg-neutral-800'
+      : 'bg-white dark:bg-neutral-900';
+    return (
+      <React.Fragment key={key}>
+        <tr
+          ref={virtualRows.measureRow(index)}
+          aria-rowindex={virtualized ? viewRowCounts.beforePage + index + 2 : undefined}
+          aria-level={treeData ? row.depth + 1 : undefined}
+          data-row-key={key}
+          aria-selected={keyboardNavigation && selectable ? isSelected : undefined}
+          className={`
+            ${striped && index % 2 === 1 ? 'bg-neutral-50 dark:bg-neutral-800/50' : ''}
+            ${onRowClick ? 'cursor-pointer hover:bg-neutral-100 dark:hover:bg-neutral-800' : ''}
+            ${isSelected ? 'bg-blue-50 dark:bg-blue-900/20' : ''}
+          `}
+          onClick={() => onRowClick?.(record, index)}
+          onKeyDown={
+            draft
+              ? (e) => {
+                  if (e.target instanceof HTMLButtonElement || draft.saving) return;
+                  if (e.key === 'Enter') {
+                    e.preventDefault();
+                    // Like the Save button, only once something changed
+                    if (isDirty) saveRow(row);
+                  } else if (e.key === 'Escape') {
+                    e.preventDefault();
+                    cancelRowEdit(row);
+                  }
+                }
+              : undefined
+          }
+          data-editing={draft ? true : undefined}
+        >
+          {selectable && (
+            <td
+              className={`${cellPadding[size]} ${pinLeadingColumns ? pinnedBackground : ''}`}
+              style={selectionPinStyle}
+              data-column-key={SELECTION_COLUMN_KEY}
+              tabIndex={getGridTabIndex(key, SELECTION_COLUMN_KEY)}
+            >
+              {isMultiSelect ? (
+                <input
+                  type="checkbox"
+                  className="rounded border-neutral-300 text-blue-600 focus:ring-blue-500"
+                  tabIndex={controlTabIndex}
+                  checked={isSelected}
+                  ref={(input) => {
+                    if (input) input.indeterminate = isPartiallySelected;
+                  }}
+                  onChange={(e) => {
+                    e.stopPropagation();
+                    // Checkboxes change on click, so the native event carries the modifier keys
+                    handleRowSelect(key, e.target.checked, (e.nativeEvent as MouseEvent).shiftKey === true);
+                  }}
+                  disabled={!isRowSelectableKey || (selectionLimitReached && !isSelected)}
+                  title={
+                    isRowSelectableKey && selectionLimitReached && !isSelected
+                      ? `Selection limit of ${maxSelection} reached`
+                      : undefined
+                  }
+                  aria-label={`Select row ${index + 1}`}
+                />
+              ) : (
+                <input
+                  type="radio"
+                  className="border-neutral-300 text-blue-600 focus:ring-blue-500"
+                  tabIndex={controlTabIndex}
+                  name={radioGroupName}
+                  checked={isSelected}
+                  onChange={(e) => {
+                    e.stopPropagation();
+                    handleRowSelect(key, e.target.checked);
+                  }}
+                  disabled={!isRowSelectableKey}
+                  aria-label={`Select row ${index + 1}`}
+                />
+              )}
+            </td>
+          )}
+          {expandable && (
+            <td
+              className={`${cellPadding[size]} ${pinLeadingColumns ? pinnedBackground : ''}`}
+              style={expandPinStyle}
+              data-column-key={EXPAND_COLUMN_KEY}
+              tabIndex={getGridTabIndex(key, EXPAND_COLUMN_KEY)}
+            >
+              {canExpand && (
+                <button
+                  type="button"
+                  className="p-1 rounded text-neutral-500 hover:bg-neutral-200 dark:hover:bg-neutral-700 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  tabIndex={controlTabIndex}
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    handleExpand(record, key, !isExpanded);
+                  }}
+                  aria-expanded={isExpanded}
+                  aria-controls={isExpanded ? detailId : undefined}
+                  aria-label={isExpanded ? `Collapse row ${index + 1}` : `Expand row ${index + 1}`}
+                >
+                  <svg
+                    className={`w-4 h-4 transition-transform ${isExpanded ? 'rotate-90' : ''}`}
+                    fill="currentColor"
+                    viewBox="0 0 20 20"
+                    aria-hidden="true"
+                  >
+                    <path fillRule="evenodd" d="M7.293 14.707a1 1 0 010-1.414L10.586 10 7.293 6.707a1 1 0 011.414-1.414l4 4a1 1 0 010 1.414l-4 4a1 1 0 01-1.414 0z" clipRule="evenodd" />
+                  </svg>
+                </button>
+              )}
+            </td>
+          )}
+          {displayColumns.map((column, columnIndex) => {
+            const isEditing = !draft && editingCell?.rowKey === key && editingCell.columnKey === column.key;
+            const rangeRow = rangeRowIndexes.get(key);
+            const inRange =
+              !!rangeBounds &&
+              rangeRow !== undefined &&
+              rangeRow >= rangeBounds.top &&
+              rangeRow <= rangeBounds.bottom &&
+              columnIndex >= rangeBounds.left &&
+              columnIndex <= rangeBounds.right;
+            const pasteError = pasteErrors.get(key)?.[column.key];
+            const isSaving = pendingEdits.get(key)?.[column.key] !== undefined;
+            const canEdit = column.editable && !isEditing && !draft;
+            const isCellDirty = !!draft && !!column.editable && isDraftDirty(row, draft, column);
+            const content = draft && column.editable ? (
+              <CellEditor
+                editor={getEditor(column)}
+                value={draft.drafts[column.key]}
+                label={`Edit ${column.title || column.key}`}
+                error={draft.errors[column.key]}
+                autoFocus={column === editableColumns[0]}
+                disabled={draft.saving}
+                onChange={(value) => {
+                  const errors = { ...draft.errors };
+                  delete errors[column.key];
+                  setRowDraft({ ...draft, drafts: { ...draft.drafts, [column.key]: value }, errors, saveError: undefined });
+                }}
+              />
+            ) : isEditing ? (
+              <CellEditor
+                editor={getEditor(column)}
+                value={editingCell.draft}
+                label={`Edit ${column.title || column.key}`}
+                error={editingCell.error}
+                autoFocus
+                onChange={(draft) => setEditingCell({ ...editingCell, draft, error: undefined })}
+                onCommit={commitEdit}
+                onCancel={() => setEditingCell(null)}
+              />
+            ) : (
+              renderCell(column, shownRecord, index)
+            );
+            return (
+              <td
+                key={column.key}
+                className={`${cellPadding[size]} text-neutral-900 dark:text-neutral-100 ${
+                  column.fixed ? `${inRange ? '' : pinnedBackground} ${getPinnedShadow(column)}` : ''
+                } ${canEdit ? 'cursor-text focus:outline-none focus:ring-2 focus:ring-inset focus:ring-blue-500' : ''} ${
+                  isSaving ? 'opacity-60' : ''
+                } ${isCellDirty ? 'bg-amber-50 dark:bg-amber-900/20' : inRange ? 'bg-blue-100 dark:bg-blue-900' : ''} ${
+                  pasteError ? 'ring-2 ring-inset ring-red-500' : ''
+                }`}
+                style={{ textAlign: column.align || 'left', ...getPinnedStyle(column) }}
+                data-column-key={column.key}
+                data-editing={isEditing || undefined}
+                data-dirty={isCellDirty || undefined}
+                data-range-selected={inRange || undefined}
+                data-paste-error={pasteError}
+                title={pasteError}
+                aria-busy={isSaving || undefined}
+                aria-selected={keyboardNavigation && cellSelection ? inRange : undefined}
+                tabIndex={keyboardNavigation ? getGridTabIndex(key, column.key) : canEdit ? 0 : undefined}
+                onMouseDown={cellSelection ? (e) => handleRangeMouseDown(e, key, column.key) : undefined}
+                onMouseEnter={cellSelection ? () => extendRangeByDrag(key, column.key) : undefined}
+                onDoubleClick={canEdit ? () => startEdit(row, column) : undefined}
+                onKeyDown={
+                  canEdit
+                    ? (e) => {
+                        if (e.target !== e.currentTarget || (e.key !== 'Enter' && e.key !== 'F2')) return;
+                        e.preventDefault();
+                        startEdit(row, column);
+                      }
+                    : undefined
+                }
+              >
+                {treeData && columnIndex === 0 ? (
+                  <div className="flex items-center" style={{ paddingLeft: row.depth * TREE_INDENT }}>
+                    {renderTreeToggle(row)}
+                    <div className="min-w-0">{content}</div>
+                  </div>
+                ) : (
+                  content
+                )}
+              </td>
+            );
+          })}
+          {rowEditing && (
+            <td
+              className={`${cellPadding[size]} whitespace-nowrap ${pinTrailingColumns ? pinnedBackground : ''}`}
+              style={actionsPinStyle}
+              data-column-key={ACTION_COLUMN_KEY}
+              tabIndex={getGridTabIndex(key, ACTION_COLUMN_KEY)}
+            >
+              {draft ? (
+                <div className="flex items-center justify-end gap-2">
+                  {draft.saveError && (
+                    <span className="text-sm text-red-600 dark:text-red-400" role="alert">
+                      {draft.saveError}
+                    </span>
+                  )}
+                  <button
+                    type="button"
+                    className="px-3 py-1 text-sm text-white bg-blue-600 rounded hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:opacity-50 disabled:cursor-not-allowed"
+                    tabIndex={controlTabIndex}
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      saveRow(row);
+                    }}
+                    disabled={!isDirty || draft.saving}
+                    aria-busy={draft.saving || undefined}
+                    aria-label={`Save row ${index + 1}`}
+                  >
+                    {draft.saving ? 'Saving…' : 'Save'}
+                  </button>
+                  <button
+                    type="button"
+                    className="px-3 py-1 text-sm text-black dark:text-neutral-300 border border-neutral-300 dark:border-neutral-600 rounded hover:bg-neutral-50 dark:hover:bg-neutral-800 focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:opacity-50 disabled:cursor-not-allowed"
+                    tabIndex={controlTabIndex}
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      cancelRowEdit(row);
+                    }}
+                    disabled={draft.saving}
+                    aria-label={`Cancel editing row ${index + 1}`}
+                  >
+                    Cancel
+                  </button>
+                </div>
+              ) : (
+                (rowEditing.rowEditable?.(record) ?? true) && (
+                  <button
+                    type="button"
+                    className="px-3 py-1 text-sm text-black dark:text-neutral-300 border border-neutral-300 dark:border-neutral-600 rounded hover:bg-neutral-50 dark:hover:bg-neutral-800 focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:opacity-50 disabled:cursor-not-allowed"
+                    tabIndex={controlTabIndex}
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      startRowEdit(row);
+                    }}
+                    disabled={editingRowKey !== null}
+                    aria-label={`Edit row ${index + 1}`}
+                  >
+                    Edit
+                  </button>
+                )
+              )}
+            </td>
+          )}
+        </tr>
+        {isExpanded && (
+          <tr id={detailId} className="bg-neutral-50 dark:bg-neutral-800/40" data-detail-row>
+            <td colSpan={columnCount} className={`${cellPadding[size]} text-neutral-900 dark:text-neutral-100`}>
+              {expandable?.expandedRowRender(shownRecord, index)}
+            </td>
+          </tr>
+        )}
+      </React.Fragment>
+    );
   };
 
+  const renderAggregate = (column: Column<T>, aggregate: Aggregate<T>, records: T[]) => {
+    const value = computeAggregate(records, column, aggregate);
+    if (column.aggregateRender) return column.aggregateRender(value, records);
+    return (
+      <span>
+        {typeof aggregate === 'string' && (
+          <span className="mr-1 text-xs font-normal text-neutral-500 dark:text-neutral-400">
+            {aggregateLabels[aggregate]}
+          </span>
+        )}
+        {formatAggregate(value)}
+      </span>
+    );
+  };
+
+  // Footer row with column aggregates; sticky along with the header
+  const renderSummary = () => {
+    if (!hasSummaryRow) return null;
+
+    const records =
+      summaryScope === 'page'
+        ? pageRows.map(row => row.record)
+        : summaryScope === 'selection'
+        ? getSelectedRecords(selectedKeys)
+        : sortedData;
+    const background = 'bg-neutral-50 dark:bg-neutral-800';
+    return (
+      <tfoot
+        className={`${background} border-t border-neutral-200 dark:border-neutral-700 font-medium text-neutral-900 dark:text-neutral-100 ${
+          stickyHeader ? 'sticky bottom-0 z-10' : ''
+        }`}
+      >
+        <tr data-summary-row aria-rowindex={virtualized ? viewRowCounts.total + 2 : undefined}>
+          {selectable && <td className={`${cellPadding[size]} ${background}`} style={selectionPinStyle} />}
+          {expandable && <td className={`${cellPadding[size]} ${background}`} style={expandPinStyle} />}
+          {displayColumns.map((column, columnIndex) => (
+            <td
+              key={column.key}
+              className={`${cellPadding[size]} ${background} ${column.fixed ? getPinnedShadow(column) : ''}`}
+              style={{ textAlign: column.align || 'left', ...getPinnedStyle(column) }}
+              data-column-key={column.key}
+            >
+              {column.aggregate !== undefined
+                ? renderAggregate(column, column.aggregate, records)
+                : columnIndex === 0 && summaryLabels[summaryScope]}
+            </td>
+          ))}
+          {rowEditing && <td className={`${cellPadding[size]} ${background}`} style={actionsPinStyle} />}
+        </tr>
+      </tfoot>
+    );
+  };
+
+  const renderGroupRow = (group: RowGroup<T>, index: number) => {
+    const rowKey = getItemKey({ type: 'group', group });
+    const isCollapsed = collapsedGroupSet.has(group.key);
+    const label = group.value == null || group.value === '' ? '(empty)' : String(group.value);
+    const background = 'bg-neutral-100 dark:bg-neutral-800';
+    return (
+      <tr
+        key={rowKey}
+        ref={virtualRows.measureRow(index)}
+        aria-rowindex={virtualized ? viewRowCounts.beforePage + index + 2 : undefined}
+        className={`${background} font-medium text-neutral-900 dark:text-neutral-100`}
+        data-group-row
+        data-row-key={rowKey}
+      >
+        {selectable && (
+          <td
+            className={`${cellPadding[size]} ${background}`}
+            style={selectionPinStyle}
+            data-column-key={SELECTION_COLUMN_KEY}
+            tabIndex={getGridTabIndex(rowKey, SELECTION_COLUMN_KEY)}
+          />
+        )}
+        {expandable && (
+          <td
+            className={`${cellPadding[size]} ${background}`}
+            style={expandPinStyle}
+            data-column-key={EXPAND_COLUMN_KEY}
+            tabIndex={getGridTabIndex(rowKey, EXPAND_COLUMN_KEY)}
+          />
+        )}
+        {displayColumns.map((column, columnIndex) => {
+          const aggregate = groupConfig?.aggregates?.[column.key];
+          return (
+            <td
+              key={column.key}
+              className={`${cellPadding[size]} ${background} ${column.fixed ? getPinnedShadow(column) : ''}`}
+              style={{ textAlign: columnIndex === 0 ? 'left' : column.align || 'left', ...getPinnedStyle(column) }}
+              data-column-key={column.key}
+              tabIndex={getGridTabIndex(rowKey, column.key)}
+            >
+              {columnIndex === 0 ? (
+                <div className="flex items-center gap-1">
+                  <button
+                    type="button"
+                    className="inline-flex items-center justify-center w-6 h-6 shrink-0 rounded text-neutral-500 hover:bg-neutral-200 dark:hover:bg-neutral-700 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    tabIndex={controlTabIndex}
+                    onClick={() => toggleGroup(group.key)}
+                    aria-expanded={!isCollapsed}
+                    aria-label={`${isCollapsed ? 'Expand' : 'Collapse'} group ${label}`}
+                  >
+                    <svg
+                      className={`w-4 h-4 transition-transform ${isCollapsed ? '' : 'rotate-90'}`}
+                      fill="currentColor"
+                      viewBox="0 0 20 20"
+                      aria-hidden="true"
+                    >
+                      <path fillRule="evenodd" d="M7.293 14.707a1 1 0 010-1.414L10.586 10 7.293 6.707a1 1 0 011.414-1.414l4 4a1 1 0 010 1.414l-4 4a1 1 0 01-1.414 0z" clipRule="evenodd" />
+                    </svg>
+                  </button>
+                  <span>{groupConfig?.title ? groupConfig.title(group) : label}</span>
+                  <span className="text-sm font-normal text-neutral-500 dark:text-neutral-400">
+                    ({group.records.length})
+                  </span>
+                  {aggregate !== undefined && (
+                    <span className="ml-auto">{renderAggregate(column, aggregate, group.records)}</span>
+                  )}
+                </div>
+              ) : (
+                aggregate !== undefined && renderAggregate(column, aggregate, group.records)
+              )}
+            </td>
+          );
+        })}
+        {rowEditing && (
+          <td
+            className={`${cellPadding[size]} ${background}`}
+            style={actionsPinStyle}
+            data-column-key={ACTION_COLUMN_KEY}
+            tabIndex={getGridTabIndex(rowKey, ACTION_COLUMN_KEY)}
+          />
+        )}
+      </tr>
+    );
+  };
+
+  // Offers to extend a full-page selection to every matching row, Gmail-style
+  const renderSelectionBanner = () => {
+    if (!selectable || !isMultiSelect || !isPaged || totalPages < 2) return null;
+    const selectableKeys = resultKeys.filter(canSelectRow);
+    const unselected = selectableKeys.filter(key => !selectedRows.has(key));
+    const allResultsSelected = unselected.length === 0 && resultKeys.length > pageRows.length;
+    const fitsLimit = maxSelection === undefined || selectedKeys.length + unselected.length <= maxSelection;
+    if (!allResultsSelected && !(isAllSelected && unselected.length > 0 && fitsLimit)) return null;
+
+    const linkClass = 'ml-2 font-medium text-blue-700 dark:text-blue-300 hover:underline focus:outline-none focus:ring-2 focus:ring-blue-500 rounded';
+    return (
+      <div
+        className="bg-blue-50 dark:bg-blue-900/20 px-4 py-2 border-b border-neutral-200 dark:border-neutral-700 text-sm text-center text-neutral-700 dark:text-neutral-300"
+        role="status"
+      >
+        {allResultsSelected ? (
+          <>
+            All <span className="font-medium">{selectableKeys.length}</span> results are selected.
+            <button type="button" className={linkClass} onClick={() => updateSelection(NO_KEYS)}>
+              Clear selection
+            </button>
+          </>
+        ) : (
+          <>
+            All <span className="font-medium">{pageRows.length}</span> rows on this page are selected.
+            <button type="button" className={linkClass} onClick={() => updateSelection([...selectedKeys, ...unselected])}>
+              Select all {selectableKeys.length} results
+            </button>
+          </>
+        )}
+      </div>
+    );
+  };
+
+  // Screen reader announcements for changes made without a visible cue
+  const renderPasteErrors = () => {
+    let count = 0;
+    pasteErrors.forEach(errors => (count += Object.keys(errors).length));
+    if (count === 0) return null;
+    return (
+      <div
+        className="flex items-center justify-center gap-2 bg-red-50 dark:bg-red-900/20 px-4 py-2 border-b border-neutral-200 dark:border-neutral-700 text-sm text-red-700 dark:text-red-300"
+        role="alert"
+      >
+        {count === 1 ? '1 pasted value was' : `${count} pasted values were`} skipped: invalid or read-only.
+        <button
+          type="button"
+          className="font-medium hover:underline focus:outline-none focus:ring-2 focus:ring-blue-500 rounded"
+          onClick={() => setPasteErrors(new Map())}
+        >
+          Dismiss
+        </button>
+      </div>
+    );
+  };
+
+  const renderLoadMoreRow = () => {
+    if (!isLoadingMore && loadMoreState !== 'failed') return null;
+    return (
+      <tr>
+        <td
+          colSpan={columnCount}
+          className={`${cellPadding[size]} text-center text-sm text-neutral-500 dark:text-neutral-400`}
+        >
+          {isLoadingMore ? (
+            <span className="inline-flex items-center gap-2" role="status">
+              <svg className="animate-spin w-4 h-4 text-blue-600" fill="none" viewBox="0 0 24 24" aria-hidden="true">
+                <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4" />
+                <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8v4a4 4 0 00-4 4H4z" />
+              </svg>
+              Loading more rows…
+            </span>
+          ) : (
+            <span role="alert">
+              Could not load more rows.
+              <button
+                type="button"
+                className="ml-2 font-medium text-blue-700 dark:text-blue-300 hover:underline focus:outline-none focus:ring-2 focus:ring-blue-500 rounded"
+                tabIndex={controlTabIndex}
+                onClick={loadMore}
+              >
+                Retry
+              </button>
+            </span>
+          )}
+        </td>
+      </tr>
+    );
+  };
+
+  const renderAnnouncements = () =>
+    reorderableColumns ? (
+      <div className="sr-only" aria-live="polite">
+        {reorderMessage}
+      </div>
+    ) : null;
+
+  /**
+   * The current view as an export sheet: visible exportable columns and the matching rows
+   * of every page in display order, with collapsed groups and tree rows
+   * included. Groups and the summary row follow the table's aggregates.
+   */
+  const createViewSheet = (scope: ExportScope) => {
+    const exportColumns = displayColumns.filter(column => column.exportable !== false);
+    const getKey = (record: T, index: number) => resolveRowKey(record, index, rowKey);
+    const expandAll = new Set(resultKeys);
+    const getRecords = (roots: T[]) =>
+      flattenForest(roots, sortedForest.children, getKey, expandAll)
+        .filter(row => scope === 'all' || selectedRows.has(row.key))
+        .map(row => row.record);
+
+    const rows: ExportRow[] = [];
+    const exported: T[] = [];
+    const sections = groups ?? [{ key: '', value: null, records: sortedData }];
+    sections.forEach(group => {
+      const records = getRecords(group.records);
+      if (groups) {
+        if (records.length === 0) return;
+        const label = group.value == null || group.value === '' ? '(empty)' : String(group.value);
+        rows.push(
+          createAggregateRow('group', `${label} (${records.length})`, exportColumns, records, column =>
+            groupConfig?.aggregates?.[column.key]
+          )
+        );
+      }
+      records.forEach(record => rows.push(createDataRow(record, exportColumns)));
+      exported.push(...records);
+    });
+
+    if (exportColumns.some(column => column.aggregate !== undefined)) {
+      const label = summaryLabels[scope === 'selected' ? 'selection' : 'all'];
+      rows.push(createAggregateRow('summary', label, exportColumns, exported, column => column.aggregate));
+    }
+    return { columns: createExportColumns(exportColumns), rows };
+  };
+
+  const handleExport = (format: ExportFormat, scope: ExportScope) => {
+    const { filename = 'export', csv, sheetName } = typeof exportable === 'object' ? exportable : {};
+    exportSheet(createViewSheet(scope), format, { filename: `${filename}.${format}`, csv, sheetName });
+  };
+
+  const renderToolbar = () => {
+    if (!searchable && !columnChooser && !exportable) return null;
+
+    return (
+      <div className="bg-white dark:bg-neutral-900 px-4 py-3 border-b border-neutral-200 dark:border-neutral-700 flex items-center justify-between gap-4">
+        {searchable ? (
+          <div className="relative w-full max-w-xs">
+            <svg
+              className="absolute left-2.5 top-1/2 -translate-y-1/2 w-4 h-4 text-neutral-400 pointer-events-none"
+              fill="none"
+              viewBox="0 0 24 24"
+              stroke="currentColor"
+              aria-hidden="true"
+            >
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M21 21l-4.35-4.35M17 11a6 6 0 11-12 0 6 6 0 0112 0z" />
+            </svg>
+            <input
+              type="search"
+              className="w-full rounded-md border border-neutral-300 dark:border-neutral-600 bg-white dark:bg-neutral-900 text-neutral-900 dark:text-neutral-100 pl-8 pr-3 py-1.5 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+              placeholder={searchPlaceholder}
+              value={searchInput}
+              onChange={(e) => handleSearchInput(e.target.value)}
+              aria-label="Search table"
+            />
+          </div>
+        ) : (
+          <div />
+        )}
+        <div className="flex items-center gap-4">
+          {searchQuery && !isServerMode && (
+            <p className="text-sm text-neutral-700 dark:text-neutral-300 whitespace-nowrap" role="status">
+              <span className="font-medium">{searchedData.length}</span> of{' '}
+              <span className="font-medium">{filteredData.length}</span> rows match
+            </p>
+          )}
+          {columnChooser && (
+            <ColumnChooser
+              options={orderedColumns.map(col => ({ key: col.key, title: col.title, visible: isColumnVisible(col) }))}
+              onToggle={handleColumnVisibility}
+            />
+          )}
+          {exportable && (
+            <ExportMenu
+              formats={(typeof exportable === 'object' && exportable.formats) || exportFormats}
+              rowCount={resultKeys.length}
+              selectedCount={selectable ? resultKeys.filter(key => selectedRows.has(key)).length : undefined}
+              onExport={handleExport}
+            />
+          )}
+        </div>
+      </div>
+    );
+  };
+
+  const gridProps: React.TableHTMLAttributes<HTMLTableElement> = keyboardNavigation
+    ? {
+        role: 'grid',
+        'aria-multiselectable': (selectable && isMultiSelect) || undefined,
+        onKeyDown: handleGridKeyDown,
+        onFocus: handleGridFocus,
+        onBlur: handleGridBlur,
+      }
+    : {};
+
   if (loading) {
     return (
       <div className="relative">
@@ -265,11 +2729,13 @@ export function DataTable<T extends Record<string, any>>({
                     <div className="w-4 h-4 bg-neutral-300 dark:bg-neutral-600 rounded animate-pulse" />
                   </th>
                 )}
-                {columns.map((column) => (
+                {expandable && <th className={`${cellPadding[size]} w-12`} />}
+                {displayColumns.map((column) => (
                   <th key={column.key} className={`${cellPadding[size]} text-left`}>
                     <div className="h-4 bg-neutral-300 dark:bg-neutral-600 rounded animate-pulse" />
                   </th>
                 ))}
+                {rowEditing && <th className={cellPadding[size]} />}
               </tr>
             </thead>
             <tbody>
@@ -280,11 +2746,13 @@ export function DataTable<T extends Record<string, any>>({
                       <div className="w-4 h-4 bg-neutral-200 dark:bg-neutral-700 rounded animate-pulse" />
                     </td>
                   )}
-                  {columns.map((column) => (
+                  {expandable && <td className={cellPadding[size]} />}
+                  {displayColumns.map((column) => (
                     <td key={column.key} className={cellPadding[size]}>
                       <div className="h-4 bg-neutral-200 dark:bg-neutral-700 rounded animate-pulse" />
                     </td>
                   ))}
+                  {rowEditing && <td className={cellPadding[size]} />}
                 </tr>
               ))}
             </tbody>
@@ -294,52 +2762,14 @@ export function DataTable<T extends Record<string, any>>({
     );
   }
 
-  if (data.length === 0) {
+  // In infinite mode the first rows may still be on their way
+  if (isEmpty && !(infinite && hasMore)) {
     return (
       <div className="border border-neutral-200 dark:border-neutral-700 rounded-lg">
-        <table className={tableClasses}>
-          <thead className="bg-neutral-50 dark:bg-neutral-800">
-            <tr>
-              {selectable && (
-                <th 
-                  className={`${cellPadding[size]} text-left font-medium text-neutral-900 dark:text-neutral-100`}
-                  scope="col"
-                >
-                  <input
-                    type="checkbox"
-                    className="rounded border-neutral-300 text-blue-600 focus:ring-blue-500"
-                    disabled
-                    aria-label="Select all rows"
-                  />
-                </th>
-              )}
-              {columns.map((column) => (
-                <th
-                  key={column.key}
-                  className={`${cellPadding[size]} text-left font-medium text-neutral-900 dark:text-neutral-100 ${
-                    column.sortable ? 'cursor-pointer hover:bg-neutral-100 dark:hover:bg-neutral-700' : ''
-                  }`}
-                  scope="col"
-                  style={{ width: column.width }}
-                  onClick={() => handleSort(column)}
-                  aria-sort={
-                    sortState.column === column.key
-                      ? sortState.direction === 'asc'
-                        ? 'ascending'
-                        : 'descending'
-                      : column.sortable
-                      ? 'none'
-                      : undefined
-                  }
-                >
-                  <div className="flex items-center">
-                    {column.title}
-                    {getSortIcon(column)}
-                  </div>
-                </th>
-              ))}
-            </tr>
-          </thead>
+        {renderToolbar()}
+        {renderAnnouncements()}
+        <table ref={tableRef} className={tableClasses} {...gridProps}>
+          {renderHeader()}
         </table>
         <div className="py-12 text-center">
           <svg
@@ -369,99 +2799,60 @@ export function DataTable<T extends Record<string, any>>({
 
   return (
     <div className="overflow-hidden border border-neutral-200 dark:border-neutral-700 rounded-lg">
-      <div className="overflow-x-auto">
-        <table className={tableClasses}>
-          <thead className="bg-neutral-50 dark:bg-neutral-800">
-            <tr>
-              {selectable && (
-                <th 
-                  className={`${cellPadding[size]} text-left font-medium text-neutral-900 dark:text-neutral-100`}
-                  scope="col"
-                >
-                  <input
-                    type="checkbox"
-                    className="rounded border-neutral-300 text-blue-600 focus:ring-blue-500"
-                    checked={isAllSelected}
-                    ref={(input) => {
-                      if (input) input.indeterminate = isIndeterminate;
-                    }}
-                    onChange={(e) => handleSelectAll(e.target.checked)}
-                    aria-label="Select all rows"
-                  />
-                </th>
+      {renderToolbar()}
+      {renderSelectionBanner()}
+      {renderPasteErrors()}
+      {renderAnnouncements()}
+      <div
+        className={`${stickyHeader ? 'overflow-auto' : 'overflow-x-auto'} ${cellSelection ? 'focus:outline-none' : ''}`}
+        style={virtualized ? { height } : scrollY !== undefined ? { maxHeight: scrollY } : undefined}
+        onScroll={handleScroll}
+        ref={scrollRef}
+        tabIndex={cellSelection ? -1 : undefined}
+        onKeyDown={cellSelection ? handleRangeKeyDown : undefined}
+        onCopy={cellSelection ? handleRangeCopy : undefined}
+        onPaste={cellSelection ? handleRangePaste : undefined}
+      >
+        <table
+          ref={tableRef}
+          className={tableClasses}
+          style={scroll?.x !== undefined ? { minWidth: scroll.x === true ? 'max-content' : scroll.x } : undefined}
+          aria-rowcount={
+            virtualized
+              ? infinite && hasMore
+                ? -1
+                : viewRowCounts.total + (hasSummaryRow ? 2 : 1)
+              : undefined
+          }
+          {...gridProps}
+        >
+          {renderHeader()}
+          <tbody
+            className={`bg-white dark:bg-neutral-900 divide-y divide-neutral-200 dark:divide-neutral-700 ${
+              cellSelection ? 'select-none' : ''
+            }`}
+          >
+            {virtualRows.paddingTop > 0 && (
+              <tr aria-hidden="true" style={{ height: virtualRows.paddingTop }} />
+            )}
+            {pageItems
+              .slice(virtualRows.start, virtualRows.end)
+              .map((item, offset) =>
+                item.type === 'row'
+                  ? renderRow(item.row, virtualRows.start + offset)
+                  : renderGroupRow(item.group, virtualRows.start + offset)
               )}
-              {columns.map((column) => (
-                <th
-                  key={column.key}
-                  className={`${cellPadding[size]} text-left font-medium text-neutral-900 dark:text-neutral-100 ${
-                    column.sortable ? 'cursor-pointer hover:bg-neutral-100 dark:hover:bg-neutral-700 user-select-none' : ''
-                  }`}
-                  scope="col"
-                  style={{ width: column.width, textAlign: column.align || 'left' }}
-                  onClick={() => handleSort(column)}
-                  aria-sort={
-                    sortState.column === column.key
-                      ? sortState.direction === 'asc'
-                        ? 'ascending'
-                        : 'descending'
-                      : column.sortable
-                      ? 'none'
-                      : undefined
-                  }
-                >
-                  <div className="flex items-center">
-                    {column.title}
-                    {getSortIcon(column)}
-                  </div>
-                </th>
-              ))}
-            </tr>
-          </thead>
-          <tbody className="bg-white dark:bg-neutral-900 divide-y divide-neutral-200 dark:divide-neutral-700">
-            {paginatedData.map((record, index) => {
-              const key = getRowKey(record, index);
-              const isSelected = selectedRows.has(key);
-              return (
-                <tr
-                  key={key}
-                  className={`
-                    ${striped && index % 2 === 1 ? 'bg-neutral-50 dark:bg-neutral-800/50' : ''}
-                    ${onRowClick ? 'cursor-pointer hover:bg-neutral-100 dark:hover:bg-neutral-800' : ''}
-                    ${isSelected ? 'bg-blue-50 dark:bg-blue-900/20' : ''}
-                  `}
-                  onClick={() => onRowClick?.(record, index)}
-                >
-                  {selectable && (
-                    <td className={cellPadding[size]}>
-                      <input
-                        type="checkbox"
-                        className="rounded border-neutral-300 text-blue-600 focus:ring-blue-500"
-                        checked={isSelected}
-                        onChange={(e) => {
-                          e.stopPropagation();
-                          handleRowSelect(key, e.target.checked);
-                        }}
-                        aria-label={`Select row ${index + 1}`}
-                      />
-                    </td>
-                  )}
-                  {columns.map((column) => (
-                    <td
-                      key={column.key}
-                      className={`${cellPadding[size]} text-neutral-900 dark:text-neutral-100`}
-                      style={{ textAlign: column.align || 'left' }}
-                    >
-                      {renderCell(column, record, index)}
-                    </td>
-                  ))}
-                </tr>
-              );
-            })}
+            {virtualRows.paddingBottom > 0 && (
+              <tr aria-hidden="true" style={{ height: virtualRows.paddingBottom }} />
+            )}
+            {infinite && renderLoadMoreRow()}
+            {infinite && <tr ref={loadMoreRef} aria-hidden="true" />}
           </tbody>
+          {renderSummary()}
         </table>
       </div>
       
-      {pagination && totalPages > 1 && (
+      {paginated && totalPages > 1 && (
         <div className="bg-white dark:bg-neutral-900 px-4 py-3 border-t border-neutral-200 dark:border-neutral-700 flex items-center justify-between">
           <div className="flex items-center">
             <p className="text-sm text-neutral-700 dark:text-neutral-300">
@@ -469,16 +2860,16 @@ export function DataTable<T extends Record<string, any>>({
               <span className="font-medium">{(currentPage - 1) * pageSize + 1}</span>
               {' '}to{' '}
               <span className="font-medium">
-                {Math.min(currentPage * pageSize, sortedData.length)}
+                {Math.min(currentPage * pageSize, totalRows)}
               </span>
               {' '}of{' '}
-              <span className="font-medium">{sortedData.length}</span>
-              {' '}results
+              <span className="font-medium">{totalRows}</span>
+              {' '}{groupedItems ? (paginateGroups ? 'groups' : 'rows') : 'results'}
             </p>
           </div>
           <div className="flex items-center space-x-2">
             <button
-              onClick={() => setCurrentPage(prev => Math.max(1, prev - 1))}
+              onClick={() => handlePageChange(currentPage - 1)}
               disabled={currentPage === 1}
               className="px-3 py-1 text-sm text-black dark:text-neutral-300 border border-neutral-300 dark:border-neutral-600 rounded hover:bg-neutral-50 dark:hover:bg-neutral-800 disabled:opacity-50 disabled:cursor-not-allowed"
             >
@@ -488,7 +2879,7 @@ export function DataTable<T extends Record<string, any>>({
               Page {currentPage} of {totalPages}
             </span>
             <button
-              onClick={() => setCurrentPage(prev => Math.min(totalPages, prev + 1))}
+              onClick={() => handlePageChange(currentPage + 1)}
               disabled={currentPage === totalPages}
               className="px-3 py-1 text-sm text-black dark:text-neutral-300 border border-neutral-300 dark:border-neutral-600 rounded hover:bg-neutral-50 dark:hover:bg-neutral-800 disabled:opacity-50 disabled:cursor-not-allowed"
             >
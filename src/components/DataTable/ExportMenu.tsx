@@ -0,0 +1,104 @@
+// src/components/DataTable/ExportMenu.tsx
+import { useId, useState } from 'react';
+import type { ExportFormat, ExportScope } from './exporting';
+import { usePopover } from './usePopover';
+
+export interface ExportMenuProps {
+  formats: ExportFormat[];
+  rowCount: number;
+  /** Number of selected rows; leave out when rows cannot be selected */
+  selectedCount?: number;
+  onExport: (format: ExportFormat, scope: ExportScope) => void;
+}
+
+const formatLabels: Record<ExportFormat, string> = {
+  csv: 'CSV',
+  xlsx: 'Excel (XLSX)',
+  json: 'JSON',
+  ndjson: 'NDJSON',
+};
+
+/**
+ * ExportMenu
+ * - "Export" toolbar button opening a menu of download formats
+ * - Chooses between all rows of the view and only the selected ones
+ * - Escape or an outside click closes the menu
+ */
+export function ExportMenu({ formats, rowCount, selectedCount, onExport }: ExportMenuProps) {
+  const [scope, setScope] = useState<ExportScope>('all');
+  const popover = usePopover({ align: 'end' });
+  const scopeName = useId();
+  // Falls back to all rows once the selection is cleared
+  const activeScope = scope === 'selected' && !selectedCount ? 'all' : scope;
+
+  const scopes: Array<{ value: ExportScope; label: string; count: number }> = [
+    { value: 'all', label: 'All rows', count: rowCount },
+    { value: 'selected', label: 'Selected rows', count: selectedCount ?? 0 },
+  ];
+
+  return (
+    <>
+      <button
+        ref={popover.buttonRef}
+        type="button"
+        className="inline-flex items-center gap-1.5 px-3 py-1.5 text-sm text-neutral-700 dark:text-neutral-300 border border-neutral-300 dark:border-neutral-600 rounded-md hover:bg-neutral-50 dark:hover:bg-neutral-800 focus:outline-none focus:ring-2 focus:ring-blue-500"
+        onClick={popover.toggle}
+        aria-haspopup="true"
+        aria-expanded={popover.open}
+        aria-controls={popover.open ? popover.panelId : undefined}
+      >
+        <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor" aria-hidden="true">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 4v12m0 0l-4-4m4 4l4-4M4 20h16" />
+        </svg>
+        Export
+      </button>
+      {popover.renderPanel(
+        <div
+          ref={popover.panelRef}
+          id={popover.panelId}
+          role="group"
+          aria-label="Export"
+          className="fixed z-50 w-56 p-3 rounded-lg border border-neutral-200 dark:border-neutral-700 bg-white dark:bg-neutral-800 text-sm text-neutral-900 dark:text-neutral-100 shadow-lg"
+          style={popover.position}
+          onKeyDown={popover.handleKeyDown}
+        >
+          {selectedCount !== undefined && (
+            <fieldset className="flex flex-col gap-1 mb-3">
+              <legend className="mb-1 font-medium">Rows</legend>
+              {scopes.map(option => (
+                <label key={option.value} className="flex items-center gap-2">
+                  <input
+                    type="radio"
+                    className="border-neutral-300 text-blue-600 focus:ring-blue-500"
+                    name={scopeName}
+                    checked={activeScope === option.value}
+                    disabled={option.count === 0}
+                    onChange={() => setScope(option.value)}
+                  />
+                  {option.label} ({option.count})
+                </label>
+              ))}
+            </fieldset>
+          )}
+          <div className="flex flex-col gap-1">
+            {formats.map(format => (
+              <button
+                key={format}
+                type="button"
+                className="w-full px-2 py-1.5 text-left rounded hover:bg-neutral-100 dark:hover:bg-neutral-700 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                onClick={() => {
+                  onExport(format, activeScope);
+                  popover.close();
+                }}
+              >
+                Download {formatLabels[format]}
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+    </>
+  );
+}
+
+export default ExportMenu;
@@ -0,0 +1,223 @@
+// src/components/DataTable/FilterPopover.tsx
+import React, { useState } from 'react';
+import type { ColumnFilter, FilterValue } from './DataTable';
+import { isFilterActive } from './filtering';
+import { usePopover } from './usePopover';
+
+type FilterOption = string | number | boolean;
+
+export interface FilterPopoverProps {
+  title: string;
+  filter: ColumnFilter;
+  value?: FilterValue;
+  /** Distinct column values, used when an enum filter has no explicit options */
+  distinctValues: FilterOption[];
+  onChange: (value: FilterValue | undefined) => void;
+}
+
+const inputClass =
+  'w-full rounded border border-neutral-300 dark:border-neutral-600 bg-white dark:bg-neutral-900 text-neutral-900 dark:text-neutral-100 px-2 py-1 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+const buttonClass =
+  'px-3 py-1 text-sm border border-neutral-300 dark:border-neutral-600 rounded hover:bg-neutral-50 dark:hover:bg-neutral-700';
+
+const parseNumber = (raw: string) => (raw === '' || Number.isNaN(Number(raw)) ? undefined : Number(raw));
+
+/**
+ * FilterPopover
+ * - Funnel button rendered inside a column header
+ * - Popover with the filter UI for the column's filter type
+ * - Changes are drafted and only applied on Apply / Enter
+ * - Escape or an outside click closes without applying
+ */
+export function FilterPopover({ title, filter, value, distinctValues, onChange }: FilterPopoverProps) {
+  const [draft, setDraft] = useState<FilterValue | undefined>(value);
+  const popover = usePopover({ onOpen: () => setDraft(value) });
+  const active = isFilterActive(value);
+
+  const apply = () => {
+    onChange(isFilterActive(draft) ? draft : undefined);
+    popover.close();
+  };
+
+  const clear = () => {
+    onChange(undefined);
+    popover.close();
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'Enter' && (e.target as HTMLElement).tagName === 'INPUT') {
+      e.preventDefault();
+      apply();
+    } else {
+      popover.handleKeyDown(e);
+    }
+  };
+
+  const renderFields = () => {
+    switch (filter.type) {
+      case 'text': {
+        const text = draft?.type === 'text' ? draft.value : '';
+        return (
+          <input
+            type="text"
+            className={inputClass}
+            placeholder={filter.placeholder ?? 'Contains...'}
+            value={text}
+            onChange={(e) => setDraft({ type: 'text', value: e.target.value })}
+            aria-label={`${title} contains`}
+            autoFocus
+          />
+        );
+      }
+      case 'number': {
+        const range = draft?.type === 'number' ? draft : { type: 'number' as const };
+        return (
+          <div className="flex items-center gap-2">
+            <input
+              type="number"
+              className={inputClass}
+              placeholder="Min"
+              value={range.min ?? ''}
+              onChange={(e) => setDraft({ ...range, min: parseNumber(e.target.value) })}
+              aria-label={`${title} minimum`}
+              autoFocus
+            />
+            <span className="text-neutral-500">–</span>
+            <input
+              type="number"
+              className={inputClass}
+              placeholder="Max"
+              value={range.max ?? ''}
+              onChange={(e) => setDraft({ ...range, max: parseNumber(e.target.value) })}
+              aria-label={`${title} maximum`}
+            />
+          </div>
+        );
+      }
+      case 'date': {
+        const range = draft?.type === 'date' ? draft : { type: 'date' as const };
+        return (
+          <div className="flex flex-col gap-2">
+            <input
+              type="date"
+              className={inputClass}
+              value={range.from ?? ''}
+              onChange={(e) => setDraft({ ...range, from: e.target.value || undefined })}
+              aria-label={`${title} from`}
+              autoFocus
+            />
+            <input
+              type="date"
+              className={inputClass}
+              value={range.to ?? ''}
+              onChange={(e) => setDraft({ ...range, to: e.target.value || undefined })}
+              aria-label={`${title} to`}
+            />
+          </div>
+        );
+      }
+      case 'enum': {
+        const selected = draft?.type === 'enum' ? draft.values : [];
+        const options = filter.options ?? distinctValues.map(option => ({ label: String(option), value: option }));
+        const toggleOption = (option: FilterOption, checked: boolean) => {
+          const values = checked ? [...selected, option] : selected.filter(v => v !== option);
+          setDraft({ type: 'enum', values });
+        };
+        return (
+          <div className="flex flex-col gap-1 max-h-48 overflow-y-auto">
+            {options.map(option => (
+              <label key={String(option.value)} className="flex items-center gap-2">
+                <input
+                  type="checkbox"
+                  className="rounded border-neutral-300 text-blue-600 focus:ring-blue-500"
+                  checked={selected.includes(option.value)}
+                  onChange={(e) => toggleOption(option.value, e.target.checked)}
+                />
+                {option.label}
+              </label>
+            ))}
+          </div>
+        );
+      }
+      case 'boolean': {
+        const current = draft?.type === 'boolean' ? draft.value : null;
+        const choices = [
+          { label: 'All', value: null },
+          { label: filter.trueLabel ?? 'Yes', value: true },
+          { label: filter.falseLabel ?? 'No', value: false },
+        ];
+        return (
+          <div className="flex flex-col gap-1" role="radiogroup" aria-label={title}>
+            {choices.map(choice => (
+              <label key={choice.label} className="flex items-center gap-2">
+                <input
+                  type="radio"
+                  name={popover.panelId}
+                  className="border-neutral-300 text-blue-600 focus:ring-blue-500"
+                  checked={current === choice.value}
+                  onChange={() =>
+                    setDraft(choice.value === null ? undefined : { type: 'boolean', value: choice.value })
+                  }
+                />
+                {choice.label}
+              </label>
+            ))}
+          </div>
+        );
+      }
+    }
+  };
+
+  return (
+    <>
+      <button
+        ref={popover.buttonRef}
+        type="button"
+        className={`ml-1 p-1 rounded hover:bg-neutral-200 dark:hover:bg-neutral-600 focus:outline-none focus:ring-2 focus:ring-blue-500 ${
+          active ? 'text-blue-600 dark:text-blue-400' : 'text-neutral-400'
+        }`}
+        onClick={(e) => {
+          e.stopPropagation();
+          popover.toggle();
+        }}
+        aria-label={`Filter ${title}`}
+        aria-haspopup="dialog"
+        aria-expanded={popover.open}
+        aria-controls={popover.open ? popover.panelId : undefined}
+      >
+        <svg className="w-3.5 h-3.5" fill="currentColor" viewBox="0 0 20 20" aria-hidden="true">
+          <path fillRule="evenodd" d="M3 3a1 1 0 011-1h12a1 1 0 01.8 1.6L12 10v5a1 1 0 01-.553.894l-2 1A1 1 0 018 16v-6L3.2 3.6A1 1 0 013 3z" clipRule="evenodd" />
+        </svg>
+      </button>
+      {popover.renderPanel(
+        <div
+          ref={popover.panelRef}
+          id={popover.panelId}
+          role="dialog"
+          aria-label={`Filter ${title}`}
+          className="fixed z-50 w-60 p-3 rounded-lg border border-neutral-200 dark:border-neutral-700 bg-white dark:bg-neutral-800 text-sm text-neutral-900 dark:text-neutral-100 shadow-lg"
+          style={popover.position}
+          onClick={(e) => e.stopPropagation()}
+          onKeyDown={handleKeyDown}
+        >
+          {renderFields()}
+          <div className="mt-3 flex justify-end gap-2">
+            <button type="button" className={buttonClass} onClick={clear}>
+              Clear
+            </button>
+            <button
+              type="button"
+              className="px-3 py-1 text-sm rounded bg-blue-600 text-white hover:bg-blue-700"
+              onClick={apply}
+            >
+              Apply
+            </button>
+          </div>
+        </div>
+      )}
+    </>
+  );
+}
+
+export default FilterPopover;
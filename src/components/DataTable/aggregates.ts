@@ -0,0 +1,62 @@
+// src/components/DataTable/aggregates.ts
+import type { Column } from './DataTable';
+
+export type AggregateType = 'sum' | 'avg' | 'count' | 'min' | 'max';
+
+/** A built-in aggregate or a function computing one from the rows */
+export type Aggregate<T> = AggregateType | ((records: T[]) => unknown);
+
+export const aggregateLabels: Record<AggregateType, string> = {
+  sum: 'Sum',
+  avg: 'Avg',
+  count: 'Count',
+  min: 'Min',
+  max: 'Max',
+};
+
+// Non-empty numeric values of a column; other values are skipped
+function numericValues<T>(records: T[], column: Column<T>): number[] {
+  const values: number[] = [];
+  records.forEach(record => {
+    const value = record[column.dataIndex];
+    if (value == null || value === '') return;
+    const num = typeof value === 'number' ? value : Number(value);
+    if (!Number.isNaN(num)) values.push(num);
+  });
+  return values;
+}
+
+/**
+ * Computes an aggregate over `records`. `count` counts rows; `min`/`max`
+ * compare the raw values, so ISO date strings work as well as numbers.
+ * Returns null when there is nothing to aggregate.
+ */
+export function computeAggregate<T>(records: T[], column: Column<T>, aggregate: Aggregate<T>): unknown {
+  if (typeof aggregate === 'function') return aggregate(records);
+
+  switch (aggregate) {
+    case 'count':
+      return records.length;
+    case 'sum':
+      return numericValues(records, column).reduce((total, value) => total + value, 0);
+    case 'avg': {
+      const values = numericValues(records, column);
+      return values.length === 0 ? null : values.reduce((total, value) => total + value, 0) / values.length;
+    }
+    case 'min':
+    case 'max': {
+      const values = records
+        .map(record => record[column.dataIndex] as unknown)
+        .filter((value): value is number | string => typeof value === 'number' || typeof value === 'string');
+      if (values.length === 0) return null;
+      return values.reduce((best, value) => ((aggregate === 'min' ? value < best : value > best) ? value : best));
+    }
+  }
+}
+
+/** Default display of an aggregate value: numbers get locale grouping and up to two decimals */
+export function formatAggregate(value: unknown): string {
+  if (value == null) return '—';
+  if (typeof value === 'number') return value.toLocaleString(undefined, { maximumFractionDigits: 2 });
+  return String(value);
+}
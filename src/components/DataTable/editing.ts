@@ -0,0 +1,115 @@
+// src/components/DataTable/editing.ts
+import type { Column } from './DataTable';
+import { getDistinctValues } from './filtering';
+
+export type CellEditorType = 'text' | 'number' | 'date' | 'select' | 'checkbox';
+
+export type EditorOptionValue = string | number | boolean;
+
+export interface EditorOption {
+  label: string;
+  value: EditorOptionValue;
+}
+
+export interface EditableConfig {
+  /** Defaults from the column filter type, then from the cell value */
+  type?: CellEditorType;
+  /** Choices of a select editor; defaults to the filter options or the column's distinct values */
+  options?: EditorOption[];
+  placeholder?: string;
+}
+
+/** Editor type and choices of a column, resolved against the current data */
+export interface ResolvedEditor {
+  type: CellEditorType;
+  options: EditorOption[];
+  placeholder?: string;
+}
+
+function inferEditorType<T>(column: Column<T>, rows: T[]): CellEditorType {
+  switch (column.filter?.type) {
+    case 'number':
+      return 'number';
+    case 'date':
+      return 'date';
+    case 'enum':
+      return 'select';
+    case 'boolean':
+      return 'checkbox';
+  }
+  const sample = rows.map(record => record[column.dataIndex]).find(value => value != null);
+  if (typeof sample === 'number') return 'number';
+  if (typeof sample === 'boolean') return 'checkbox';
+  return 'text';
+}
+
+export function resolveEditor<T>(column: Column<T>, rows: T[]): ResolvedEditor {
+  const config = typeof column.editable === 'object' ? column.editable : {};
+  const type = config.type ?? inferEditorType(column, rows);
+  let options = config.options ?? [];
+  if (type === 'select' && !config.options) {
+    options =
+      column.filter?.type === 'enum' && column.filter.options
+        ? column.filter.options
+        : getDistinctValues(rows, column).map(value => ({ label: String(value), value }));
+  }
+  return { type, options, placeholder: config.placeholder };
+}
+
+/**
+ * Editors work on drafts: strings for the text-like inputs, the raw value
+ * for selects and checkboxes
+ */
+export function toDraft(type: CellEditorType, value: unknown): unknown {
+  if (type === 'checkbox') return Boolean(value);
+  if (type === 'select') return value;
+  return value == null ? '' : String(value);
+}
+
+/** Turns a draft back into a cell value, or an error when it cannot be one */
+export function fromDraft(type: CellEditorType, draft: unknown): { value: unknown } | { error: string } {
+  if (type !== 'number') return { value: draft };
+  const text = String(draft).trim();
+  if (text === '') return { value: null };
+  const num = Number(text);
+  return Number.isNaN(num) ? { error: 'Enter a number' } : { value: num };
+}
+
+const TRUE_TEXT = ['true', 'yes', 'y', '1', 'x', '✓', '✔'];
+const FALSE_TEXT = ['false', 'no', 'n', '0', ''];
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+/**
+ * Turns pasted text into a value of the editor's type, or an error when it
+ * cannot be one. Accepts what spreadsheets usually copy: grouped numbers,
+ * formatted dates, option labels and yes/no.
+ */
+export function parseCellText(editor: ResolvedEditor, text: string): { value: unknown } | { error: string } {
+  const trimmed = text.trim();
+  switch (editor.type) {
+    case 'number':
+      return fromDraft('number', /^-?\d{1,3}(,\d{3})+(\.\d+)?$/.test(trimmed) ? trimmed.replace(/,/g, '') : trimmed);
+    case 'date': {
+      if (trimmed === '' || /^\d{4}-\d{2}-\d{2}$/.test(trimmed)) return { value: trimmed || null };
+      const date = new Date(trimmed);
+      if (Number.isNaN(date.getTime())) return { error: 'Enter a date' };
+      return { value: `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}` };
+    }
+    case 'select': {
+      const lower = trimmed.toLowerCase();
+      const option = editor.options.find(
+        option => option.label.toLowerCase() === lower || String(option.value).toLowerCase() === lower
+      );
+      return option ? { value: option.value } : { error: 'Choose one of the options' };
+    }
+    case 'checkbox': {
+      const lower = trimmed.toLowerCase();
+      if (TRUE_TEXT.includes(lower)) return { value: true };
+      if (FALSE_TEXT.includes(lower)) return { value: false };
+      return { error: 'Enter yes or no' };
+    }
+    default:
+      return { value: text };
+  }
+}
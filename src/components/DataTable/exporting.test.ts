@@ -0,0 +1,76 @@
+// src/components/DataTable/exporting.test.ts
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import type { Column } from './DataTable';
+import { createExportSheet, sheetToJson, toCsv } from './exporting';
+
+type User = {
+  name: string;
+  email: string;
+  age: number;
+  active: boolean;
+};
+
+const alice: User = { name: 'Alice', email: 'alice@example.com', age: 28, active: true };
+
+describe('toCsv', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it('quotes fields per RFC 4180 and uses exportValue', () => {
+    const exportColumns: Column<User>[] = [
+      { key: 'name', title: 'Name', dataIndex: 'name' },
+      { key: 'email', title: 'E-mail, work', dataIndex: 'email' },
+      { key: 'active', title: 'Status', dataIndex: 'active', exportValue: (user) => (user.active ? 'Active' : 'Inactive') },
+    ];
+    const users = [
+      { ...alice, name: 'Alice "Al" Smith' },
+      { name: 'Bob\nJr.', email: 'bob@example.com', age: 32, active: false },
+    ];
+
+    expect(toCsv(users, exportColumns)).toBe(
+      'Name,"E-mail, work",Status\r\n' +
+        '"Alice ""Al"" Smith",alice@example.com,Active\r\n' +
+        '"Bob\nJr.",bob@example.com,Inactive\r\n'
+    );
+    expect(toCsv(users.slice(0, 1), exportColumns, { delimiter: ';', bom: true, omitHeader: true })).toBe(
+      '\uFEFF"Alice ""Al"" Smith";alice@example.com;Active\r\n'
+    );
+  });
+
+  it('escapes text that spreadsheets would run as a formula', () => {
+    const formulaColumns: Column<User>[] = [
+      { key: 'name', title: 'Name', dataIndex: 'name' },
+      { key: 'age', title: 'Age', dataIndex: 'age' },
+    ];
+    const users = ['=HYPERLINK("http://x")', '+1', '-2', '@SUM(A1)', '\tTab', 'Plain'].map((name, index) => ({
+      ...alice,
+      name,
+      age: -index,
+    }));
+
+    expect(toCsv(users, formulaColumns, { omitHeader: true })).toBe(
+      '"\'=HYPERLINK(""http://x"")",0\r\n' +
+        "'+1,-1\r\n" +
+        "'-2,-2\r\n" +
+        "'@SUM(A1),-3\r\n" +
+        "'\tTab,-4\r\n" +
+        'Plain,-5\r\n'
+    );
+    expect(toCsv(users.slice(1, 2), formulaColumns, { omitHeader: true, escapeFormulas: false })).toBe('+1,-1\r\n');
+  });
+
+  it('writes dates in local time whatever the time zone', () => {
+    vi.stubEnv('TZ', 'America/Los_Angeles');
+    const dateColumns: Column<{ joined: string; lastSeen: Date }>[] = [
+      { key: 'joined', title: 'Joined', dataIndex: 'joined', sortType: 'date' },
+      { key: 'lastSeen', title: 'Last seen', dataIndex: 'lastSeen' },
+    ];
+    const records = [{ joined: '2024-01-02', lastSeen: new Date(2024, 0, 2, 18, 30) }];
+
+    expect(toCsv(records, dateColumns, { omitHeader: true })).toBe('2024-01-02,2024-01-02T18:30:00.000\r\n');
+    expect(JSON.parse(sheetToJson(createExportSheet(records, dateColumns)))).toEqual([
+      { Joined: '2024-01-02', 'Last seen': '2024-01-02T18:30:00.000' },
+    ]);
+  });
+});
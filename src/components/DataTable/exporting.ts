@@ -0,0 +1,266 @@
+// src/components/DataTable/exporting.ts
+import type { Column } from './DataTable';
+import { computeAggregate } from './aggregates';
+import type { Aggregate } from './aggregates';
+import { sheetToXlsx } from './xlsx';
+
+/** A cell as exported; see `Column.exportValue` */
+export type ExportValue = string | number | boolean | Date | null | undefined;
+
+export type ExportFormat = 'csv' | 'xlsx' | 'json' | 'ndjson';
+
+/** Rows an export covers: every row of the current view, or only the selected ones */
+export type ExportScope = 'all' | 'selected';
+
+export interface CsvOptions {
+  /** Field separator; defaults to a comma, e.g. ';' for Excel in many European locales */
+  delimiter?: string;
+  /** Prepends a UTF-8 byte order mark so Excel detects the encoding */
+  bom?: boolean;
+  /** Leaves out the header line of column titles */
+  omitHeader?: boolean;
+  /**
+   * Prefixes text starting with `=`, `+`, `-`, `@`, a tab or a carriage
+   * return with `'`, so spreadsheets do not run it as a formula; defaults to true
+   */
+  escapeFormulas?: boolean;
+}
+
+export interface ExportOptions {
+  /** Defaults to `export` with the format's extension */
+  filename?: string;
+  csv?: CsvOptions;
+  /** Worksheet name in XLSX files; defaults to `Sheet1` */
+  sheetName?: string;
+}
+
+export interface CsvExportOptions extends CsvOptions {
+  /** Defaults to `export.csv` */
+  filename?: string;
+}
+
+/** Toolbar export settings of a table */
+export interface ExportConfig {
+  /** File name without extension; defaults to `export` */
+  filename?: string;
+  /** Formats offered in the menu; defaults to all of them */
+  formats?: ExportFormat[];
+  csv?: CsvOptions;
+  sheetName?: string;
+}
+
+export interface ExportColumn {
+  key: string;
+  title: string;
+  /** In px, from `Column.width` */
+  width?: number;
+}
+
+export interface ExportRow {
+  type: 'data' | 'group' | 'summary';
+  /** One value per column */
+  values: ExportValue[];
+}
+
+/** A table ready to be written in any export format */
+export interface ExportSheet {
+  columns: ExportColumn[];
+  rows: ExportRow[];
+}
+
+export const exportFormats: ExportFormat[] = ['csv', 'xlsx', 'json', 'ndjson'];
+
+const mimeTypes: Record<ExportFormat, string> = {
+  csv: 'text/csv;charset=utf-8',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  json: 'application/json',
+  ndjson: 'application/x-ndjson',
+};
+
+const isDateColumn = <T>(column: Column<T>) => column.sortType === 'date' || column.filter?.type === 'date';
+
+// Date-only strings mean a local day; Date would read them as UTC midnight
+function parseDate(text: string): Date {
+  const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(text);
+  return match ? new Date(Number(match[1]), Number(match[2]) - 1, Number(match[3])) : new Date(text);
+}
+
+/** Keeps numbers, booleans and dates; anything else becomes text */
+export function toExportValue(value: unknown): ExportValue {
+  if (value == null || value instanceof Date) return value;
+  if (typeof value === 'number') return Number.isFinite(value) ? value : null;
+  if (typeof value === 'string' || typeof value === 'boolean') return value;
+  return String(value);
+}
+
+/**
+ * The value a column exports for a row: `exportValue` if given, otherwise
+ * the raw cell value. Date columns turn parseable strings into dates.
+ */
+export function getExportValue<T>(column: Column<T>, record: T): ExportValue {
+  if (column.exportValue) return column.exportValue(record);
+  const value = toExportValue(record[column.dataIndex]);
+  if (typeof value === 'string' && isDateColumn(column)) {
+    const date = parseDate(value);
+    if (!Number.isNaN(date.getTime())) return date;
+  }
+  return value;
+}
+
+// Numbers and px strings; relative widths have no fixed size to export
+function toPixelWidth(width: string | number | undefined): number | undefined {
+  if (typeof width === 'number') return width;
+  return width && /^\d+(\.\d+)?(px)?$/.test(width.trim()) ? parseFloat(width) : undefined;
+}
+
+export function createExportColumns<T>(columns: Column<T>[]): ExportColumn[] {
+  return columns.map(column => ({ key: column.key, title: column.title, width: toPixelWidth(column.width) }));
+}
+
+export function createDataRow<T>(record: T, columns: Column<T>[]): ExportRow {
+  return { type: 'data', values: columns.map(column => getExportValue(column, record)) };
+}
+
+/**
+ * A group header or summary row: `label` in the first column and each
+ * column's aggregate over `records` beneath it
+ */
+export function createAggregateRow<T>(
+  type: 'group' | 'summary',
+  label: string,
+  columns: Column<T>[],
+  records: T[],
+  getAggregate: (column: Column<T>) => Aggregate<T> | undefined
+): ExportRow {
+  return {
+    type,
+    values: columns.map((column, index) => {
+      if (index === 0) return label;
+      const aggregate = getAggregate(column);
+      return aggregate === undefined ? null : toExportValue(computeAggregate(records, column, aggregate));
+    }),
+  };
+}
+
+/** A sheet of plain data rows */
+export function createExportSheet<T>(records: T[], columns: Column<T>[]): ExportSheet {
+  return { columns: createExportColumns(columns), rows: records.map(record => createDataRow(record, columns)) };
+}
+
+const pad = (value: number, length = 2) => String(value).padStart(length, '0');
+
+// Local time without an offset, as the date was built; local midnight keeps the short date form
+function formatDate(date: Date): string {
+  const day = `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+  const time = [date.getHours(), date.getMinutes(), date.getSeconds(), date.getMilliseconds()];
+  if (time.every(part => part === 0)) return day;
+  return `${day}T${pad(time[0])}:${pad(time[1])}:${pad(time[2])}.${pad(time[3], 3)}`;
+}
+
+/** A value as written to text formats such as CSV */
+export function formatText(value: ExportValue): string {
+  if (value == null) return '';
+  if (value instanceof Date) return formatDate(value);
+  return String(value);
+}
+
+// RFC 4180: fields holding the delimiter, a quote or a line break are quoted, with quotes doubled
+function quoteCsvField(field: string, delimiter: string): string {
+  if (!field.includes(delimiter) && !/["\r\n]/.test(field)) return field;
+  return `"${field.replace(/"/g, '""')}"`;
+}
+
+// Guards against formula injection; numbers keep their sign since they are not text
+const escapeFormula = (value: ExportValue) =>
+  typeof value === 'string' && /^[=+\-@\t\r]/.test(value) ? `'${value}` : formatText(value);
+
+/** Writes a sheet as CSV with CRLF line breaks */
+export function sheetToCsv(sheet: ExportSheet, options: CsvOptions = {}): string {
+  const { delimiter = ',', bom = false, omitHeader = false, escapeFormulas = true } = options;
+  const line = (fields: string[]) => fields.map(field => quoteCsvField(field, delimiter)).join(delimiter);
+
+  const lines = sheet.rows.map(row => line(row.values.map(escapeFormulas ? escapeFormula : formatText)));
+  if (!omitHeader) lines.unshift(line(sheet.columns.map(column => column.title)));
+  return (bom ? '\uFEFF' : '') + lines.map(text => `${text}\r\n`).join('');
+}
+
+// Rows as objects keyed by column title; group and summary rows are marked with `$rowType`
+function toJsonObjects(sheet: ExportSheet): Array<Record<string, unknown>> {
+  return sheet.rows.map(row => {
+    const object: Record<string, unknown> = row.type === 'data' ? {} : { $rowType: row.type };
+    sheet.columns.forEach((column, index) => {
+      const value = row.values[index];
+      object[column.title || column.key] = value instanceof Date ? formatDate(value) : value ?? null;
+    });
+    return object;
+  });
+}
+
+export function sheetToJson(sheet: ExportSheet): string {
+  return JSON.stringify(toJsonObjects(sheet), null, 2);
+}
+
+/** Newline-delimited JSON: one object per line */
+export function sheetToNdjson(sheet: ExportSheet): string {
+  return toJsonObjects(sheet)
+    .map(object => `${JSON.stringify(object)}\n`)
+    .join('');
+}
+
+/** Serializes rows as CSV, one line per record */
+export function toCsv<T>(records: T[], columns: Column<T>[], options: CsvOptions = {}): string {
+  return sheetToCsv(createExportSheet(records, columns), options);
+}
+
+/** Saves a blob through a temporary download link */
+export function downloadBlob(blob: Blob, filename: string): void {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.style.display = 'none';
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  // Revoking right away can cancel the download in some browsers
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+}
+
+/** Writes a sheet in `format` and downloads it */
+export function exportSheet(sheet: ExportSheet, format: ExportFormat, options: ExportOptions = {}): void {
+  const { filename = `export.${format}`, csv, sheetName } = options;
+  let content: BlobPart;
+  switch (format) {
+    case 'csv':
+      content = sheetToCsv(sheet, csv);
+      break;
+    case 'xlsx':
+      content = sheetToXlsx(sheet, sheetName);
+      break;
+    case 'json':
+      content = sheetToJson(sheet);
+      break;
+    case 'ndjson':
+      content = sheetToNdjson(sheet);
+      break;
+  }
+  downloadBlob(new Blob([content], { type: mimeTypes[format] }), filename);
+}
+
+/** Downloads rows as a CSV file */
+export function exportToCsv<T>(records: T[], columns: Column<T>[], options: CsvExportOptions = {}): void {
+  const { filename = 'export.csv', ...csv } = options;
+  exportSheet(createExportSheet(records, columns), 'csv', { filename, csv });
+}
+
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+/** Writes a sheet's rows as an HTML table, the rich clipboard format spreadsheets read */
+export function sheetToHtml(sheet: ExportSheet, options: { omitHeader?: boolean } = {}): string {
+  const row = (cells: string[], tag: 'th' | 'td') =>
+    `<tr>${cells.map(cell => `<${tag}>${escapeHtml(cell)}</${tag}>`).join('')}</tr>`;
+  const head = options.omitHeader ? '' : `<thead>${row(sheet.columns.map(column => column.title), 'th')}</thead>`;
+  const body = sheet.rows.map(sheetRow => row(sheetRow.values.map(formatText), 'td')).join('');
+  return `<table>${head}<tbody>${body}</tbody></table>`;
+}
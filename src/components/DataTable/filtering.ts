@@ -0,0 +1,72 @@
+// src/components/DataTable/filtering.ts
+import type { Column, FilterState, FilterValue } from './DataTable';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Whether a filter value actually restricts rows */
+export function isFilterActive(filter: FilterValue | undefined): filter is FilterValue {
+  if (!filter) return false;
+  switch (filter.type) {
+    case 'text':
+      return filter.value.trim() !== '';
+    case 'number':
+      return filter.min != null || filter.max != null;
+    case 'date':
+      return !!filter.from || !!filter.to;
+    case 'enum':
+      return filter.values.length > 0;
+    case 'boolean':
+      return true;
+  }
+}
+
+/** Tests one cell value against a filter */
+export function matchesFilter(value: unknown, filter: FilterValue): boolean {
+  switch (filter.type) {
+    case 'text':
+      return value != null && String(value).toLowerCase().includes(filter.value.trim().toLowerCase());
+    case 'number': {
+      if (value == null || value === '') return false;
+      const num = Number(value);
+      if (Number.isNaN(num)) return false;
+      return (filter.min == null || num >= filter.min) && (filter.max == null || num <= filter.max);
+    }
+    case 'date': {
+      if (value == null || value === '') return false;
+      const time = value instanceof Date ? value.getTime() : Date.parse(String(value));
+      if (Number.isNaN(time)) return false;
+      // Both bounds are whole days, so `to` includes everything on that day
+      if (filter.from && time < Date.parse(filter.from)) return false;
+      if (filter.to && time >= Date.parse(filter.to) + DAY_MS) return false;
+      return true;
+    }
+    case 'enum':
+      return filter.values.some(option => option === value);
+    case 'boolean':
+      return Boolean(value) === filter.value;
+  }
+}
+
+/** Keeps the rows that match every active column filter */
+export function filterRows<T>(rows: T[], filters: FilterState, columns: Column<T>[]): T[] {
+  const active = columns
+    .filter(column => column.filter && isFilterActive(filters[column.key]))
+    .map(column => ({ column, filter: filters[column.key] }));
+  if (active.length === 0) return rows;
+
+  return rows.filter(record =>
+    active.every(({ column, filter }) => matchesFilter(record[column.dataIndex], filter))
+  );
+}
+
+/** Distinct non-empty values of a column, used to build enum filter options */
+export function getDistinctValues<T>(rows: T[], column: Column<T>): Array<string | number | boolean> {
+  const values = new Set<string | number | boolean>();
+  rows.forEach(record => {
+    const value = record[column.dataIndex];
+    if (typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean') {
+      values.add(value);
+    }
+  });
+  return Array.from(values).sort((a, b) => String(a).localeCompare(String(b), undefined, { numeric: true }));
+}
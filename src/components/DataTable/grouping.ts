@@ -0,0 +1,50 @@
+// src/components/DataTable/grouping.ts
+
+export interface RowGroup<T> {
+  /** String form of the group value, used for collapsed state */
+  key: string;
+  value: unknown;
+  records: T[];
+}
+
+export type GroupSort<T> = 'asc' | 'desc' | ((a: RowGroup<T>, b: RowGroup<T>) => number);
+
+const groupCollator = new Intl.Collator(undefined, { numeric: true, sensitivity: 'base' });
+
+const isEmpty = (value: unknown) => value == null || value === '';
+
+// Orders group values in `direction`; empty groups go last either way
+function compareGroupValues(a: unknown, b: unknown, direction: 'asc' | 'desc'): number {
+  if (a === b) return 0;
+  if (isEmpty(a)) return 1;
+  if (isEmpty(b)) return -1;
+  const comparison =
+    typeof a === 'number' && typeof b === 'number' ? a - b : groupCollator.compare(String(a), String(b));
+  return direction === 'desc' ? -comparison : comparison;
+}
+
+/**
+ * Splits rows into groups of equal value. Rows keep their order inside a
+ * group; the groups themselves are ordered by `sort`, independent of how the
+ * rows are sorted.
+ */
+export function groupRows<T>(
+  rows: T[],
+  getValue: (record: T) => unknown,
+  sort: GroupSort<T> = 'asc'
+): RowGroup<T>[] {
+  const groups = new Map<string, RowGroup<T>>();
+  rows.forEach(record => {
+    const value = getValue(record);
+    const key = String(value ?? '');
+    const group = groups.get(key);
+    if (group) group.records.push(record);
+    else groups.set(key, { key, value, records: [record] });
+  });
+
+  const compare =
+    typeof sort === 'function'
+      ? sort
+      : (a: RowGroup<T>, b: RowGroup<T>) => compareGroupValues(a.value, b.value, sort);
+  return Array.from(groups.values()).sort(compare);
+}
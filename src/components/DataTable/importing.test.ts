@@ -0,0 +1,24 @@
+// src/components/DataTable/importing.test.ts
+import { describe, it, expect } from 'vitest';
+import { detectDelimiter, parseDelimited } from './importing';
+
+describe('delimited text parsing', () => {
+  it('parses quoted CSV fields, line endings and a byte order mark', () => {
+    const text = '\uFEFFName,Note\r\n"Smith, Alice","She said ""hi""\nthen left"\r\nBob,\n\nCarol,ok';
+    expect(parseDelimited(text)).toEqual([
+      ['Name', 'Note'],
+      ['Smith, Alice', 'She said "hi"\nthen left'],
+      ['Bob', ''],
+      ['Carol', 'ok'],
+    ]);
+  });
+
+  it('detects tab and semicolon separators', () => {
+    expect(detectDelimiter('a\tb,c\n1\t2')).toBe('\t');
+    expect(detectDelimiter('a;b;c,d\n')).toBe(';');
+    expect(parseDelimited('name\tage\nAlice\t28\n')).toEqual([
+      ['name', 'age'],
+      ['Alice', '28'],
+    ]);
+  });
+});
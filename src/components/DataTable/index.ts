@@ -1 +1,14 @@
 export * from './DataTable';
+export {
+  createExportSheet,
+  downloadBlob,
+  exportSheet,
+  exportToCsv,
+  sheetToCsv,
+  sheetToHtml,
+  sheetToJson,
+  sheetToNdjson,
+  toCsv,
+} from './exporting';
+export { sheetToXlsx } from './xlsx';
+export { detectDelimiter, parseDelimited } from './importing';
@@ -0,0 +1,58 @@
+// src/components/DataTable/search.tsx
+import React from 'react';
+import type { Column } from './DataTable';
+
+/** Text the quick search matches against for one cell */
+export function getSearchText<T>(column: Column<T>, record: T): string {
+  if (column.searchValue) return column.searchValue(record);
+  const value = record[column.dataIndex];
+  return value == null ? '' : String(value);
+}
+
+/** Keeps the rows where any of the given columns contains the query (case-insensitive) */
+export function searchRows<T>(rows: T[], query: string, columns: Column<T>[]): T[] {
+  const needle = query.trim().toLowerCase();
+  if (!needle || columns.length === 0) return rows;
+  return rows.filter(record =>
+    columns.some(column => getSearchText(column, record).toLowerCase().includes(needle))
+  );
+}
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Wraps every occurrence of `query` in the text of a rendered cell with
+ * <mark>. Walks into element children, so plain markup returned by
+ * `Column.render` is highlighted too; text produced inside other components
+ * is left alone.
+ */
+export function highlightMatches(node: React.ReactNode, query: string): React.ReactNode {
+  const needle = query.trim();
+  if (!needle) return node;
+  const pattern = new RegExp(`(${escapeRegExp(needle)})`, 'gi');
+
+  const walk = (child: React.ReactNode): React.ReactNode => {
+    if (typeof child === 'string' || typeof child === 'number') {
+      const parts = String(child).split(pattern);
+      if (parts.length === 1) return child;
+      return parts.map((part, index) =>
+        index % 2 === 1 ? (
+          <mark key={index} className="bg-yellow-200 dark:bg-yellow-600/60 text-inherit rounded-sm">
+            {part}
+          </mark>
+        ) : (
+          part
+        )
+      );
+    }
+    if (Array.isArray(child)) {
+      return React.Children.map(child, walk);
+    }
+    if (React.isValidElement<{ children?: React.ReactNode }>(child) && child.props.children != null) {
+      return React.cloneElement(child, undefined, walk(child.props.children));
+    }
+    return child;
+  };
+
+  return walk(node);
+}
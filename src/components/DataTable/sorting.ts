@@ -0,0 +1,117 @@
+// src/components/DataTable/sorting.ts
+import type { Column, SortDirection, SortRule, SortState, SortType } from './DataTable';
+
+/** Compares two cell values in ascending order; nulls sort first */
+function compareValues(aValue: unknown, bValue: unknown): number {
+  if (aValue === bValue) return 0;
+  if (aValue == null) return -1;
+  if (bValue == null) return 1;
+
+  if (typeof aValue === 'string' && typeof bValue === 'string') {
+    return aValue.localeCompare(bValue);
+  }
+  if (typeof aValue === 'number' && typeof bValue === 'number') {
+    return aValue - bValue;
+  }
+  return String(aValue).localeCompare(String(bValue));
+}
+
+const naturalCollator = new Intl.Collator(undefined, { numeric: true, sensitivity: 'base' });
+const localeCollator = new Intl.Collator(undefined, { sensitivity: 'base' });
+
+// Normalizes a cell value for a sort type; unparseable values count as null
+function toSortValue(value: unknown, sortType?: SortType): unknown {
+  if (value == null) return null;
+  switch (sortType) {
+    case 'number': {
+      const num = typeof value === 'number' ? value : Number(value);
+      return Number.isNaN(num) ? null : num;
+    }
+    case 'date': {
+      const time = value instanceof Date ? value.getTime() : Date.parse(String(value));
+      return Number.isNaN(time) ? null : time;
+    }
+    case 'boolean':
+      return value ? 1 : 0;
+    default:
+      return value;
+  }
+}
+
+const typeComparators: Record<SortType, (a: unknown, b: unknown) => number> = {
+  number: (a, b) => (a as number) - (b as number),
+  date: (a, b) => (a as number) - (b as number),
+  boolean: (a, b) => (a as number) - (b as number),
+  natural: (a, b) => naturalCollator.compare(String(a), String(b)),
+  locale: (a, b) => localeCollator.compare(String(a), String(b)),
+};
+
+/**
+ * Compares two records by one column, applying the sort direction.
+ * A custom `sorter` wins over `sortType`; `nullsPosition` pins empty values
+ * to the top or bottom whatever the direction.
+ */
+function compareByColumn<T>(a: T, b: T, column: Column<T>, direction: SortDirection): number {
+  const applyDirection = (comparison: number) => (direction === 'asc' ? comparison : -comparison);
+
+  if (column.sorter) {
+    return applyDirection(column.sorter(a, b));
+  }
+
+  const aValue = toSortValue(a[column.dataIndex], column.sortType);
+  const bValue = toSortValue(b[column.dataIndex], column.sortType);
+
+  if (aValue == null || bValue == null) {
+    if (aValue == null && bValue == null) return 0;
+    const comparison = aValue == null ? -1 : 1;
+    if (column.nullsPosition) {
+      return column.nullsPosition === 'first' ? comparison : -comparison;
+    }
+    return applyDirection(comparison);
+  }
+
+  const compare = column.sortType ? typeComparators[column.sortType] : compareValues;
+  return applyDirection(compare(aValue, bValue));
+}
+
+/**
+ * Sorts rows by every rule in priority order. Ties on one rule are broken by
+ * the next, and rows that tie on all rules keep their original order.
+ */
+export function sortRows<T>(rows: T[], sort: SortState, columns: Column<T>[]): T[] {
+  const rules = sort
+    .map(rule => ({ rule, column: columns.find(col => col.key === rule.column) }))
+    .filter((entry): entry is { rule: SortRule; column: Column<T> } => entry.column !== undefined);
+  if (rules.length === 0) return rows;
+
+  return rows
+    .map((record, index) => ({ record, index }))
+    .sort((a, b) => {
+      for (const { rule, column } of rules) {
+        const comparison = compareByColumn(a.record, b.record, column, rule.direction);
+        if (comparison !== 0) return comparison;
+      }
+      return a.index - b.index;
+    })
+    .map(entry => entry.record);
+}
+
+/**
+ * Computes the next sort state for a header click. A plain click makes the
+ * column the only sort key; `additive` (shift-click) adds or updates it as an
+ * extra key. Each column cycles asc -> desc -> unsorted.
+ */
+export function toggleSort(sort: SortState, columnKey: string, additive: boolean): SortState {
+  const existing = sort.find(rule => rule.column === columnKey);
+  const nextRule: SortRule | null = !existing
+    ? { column: columnKey, direction: 'asc' }
+    : existing.direction === 'asc'
+    ? { column: columnKey, direction: 'desc' }
+    : null;
+
+  if (!additive) return nextRule ? [nextRule] : [];
+  if (!existing) return [...sort, nextRule as SortRule];
+  return nextRule
+    ? sort.map(rule => (rule.column === columnKey ? nextRule : rule))
+    : sort.filter(rule => rule.column !== columnKey);
+}
@@ -0,0 +1,166 @@
+// src/components/DataTable/tree.ts
+import type { RowKey } from './DataTable';
+
+/** Rows of a tree by level: top-level rows plus the child rows of each parent */
+export interface Forest<T> {
+  roots: T[];
+  /** Non-empty child lists keyed by parent record */
+  children: Map<T, T[]>;
+}
+
+/** A row as rendered: its place in the tree once expanded rows are flattened */
+export interface TreeRow<T> {
+  record: T;
+  key: RowKey;
+  depth: number;
+  parentKey: RowKey | null;
+}
+
+export interface TreeNode<T> {
+  record: T;
+  parentKey: RowKey | null;
+  childKeys: RowKey[];
+}
+
+/** Collects the child lists of every level; without `getChildren` all rows are top-level */
+export function buildForest<T>(
+  roots: T[],
+  getChildren?: (record: T, index: number) => T[] | undefined
+): Forest<T> {
+  const children = new Map<T, T[]>();
+  if (!getChildren) return { roots, children };
+
+  const visit = (level: T[]) => {
+    level.forEach((record, index) => {
+      const nested = getChildren(record, index);
+      if (nested && nested.length > 0) {
+        children.set(record, nested);
+        visit(nested);
+      }
+    });
+  };
+  visit(roots);
+  return { roots, children };
+}
+
+/**
+ * Applies `keep` to every level. A parent stays when it is kept itself or
+ * when any of its descendants is, so matches deep in the tree stay reachable.
+ */
+export function pruneForest<T>({ roots, children }: Forest<T>, keep: (rows: T[]) => T[]): Forest<T> {
+  if (children.size === 0) return { roots: keep(roots), children };
+
+  const kept = new Map<T, T[]>();
+  const visit = (level: T[]): T[] => {
+    const matches = new Set(keep(level));
+    return level.filter(record => {
+      const nested = children.get(record);
+      const keptChildren = nested ? visit(nested) : [];
+      if (keptChildren.length > 0) kept.set(record, keptChildren);
+      return matches.has(record) || keptChildren.length > 0;
+    });
+  };
+  return { roots: visit(roots), children: kept };
+}
+
+/** Reorders each level on its own; children never move between parents */
+export function sortForest<T>({ roots, children }: Forest<T>, order: (rows: T[]) => T[]): Forest<T> {
+  if (children.size === 0) return { roots: order(roots), children };
+
+  const sorted = new Map<T, T[]>();
+  children.forEach((rows, parent) => sorted.set(parent, order(rows)));
+  return { roots: order(roots), children: sorted };
+}
+
+/** Rows in render order: each expanded row is followed by its descendants */
+export function flattenForest<T>(
+  roots: T[],
+  children: Map<T, T[]>,
+  getKey: (record: T, index: number) => RowKey,
+  expanded: Set<RowKey>
+): TreeRow<T>[] {
+  const rows: TreeRow<T>[] = [];
+  const visit = (level: T[], depth: number, parentKey: RowKey | null) => {
+    level.forEach((record, index) => {
+      const key = getKey(record, index);
+      rows.push({ record, key, depth, parentKey });
+      const nested = children.get(record);
+      if (nested && expanded.has(key)) visit(nested, depth + 1, key);
+    });
+  };
+  visit(roots, 0, null);
+  return rows;
+}
+
+/** Parent and child keys of every row in the tree */
+export function indexForest<T>(
+  { roots, children }: Forest<T>,
+  getKey: (record: T, index: number) => RowKey
+): Map<RowKey, TreeNode<T>> {
+  const index = new Map<RowKey, TreeNode<T>>();
+  const visit = (level: T[], parentKey: RowKey | null): RowKey[] =>
+    level.map((record, position) => {
+      const key = getKey(record, position);
+      const node: TreeNode<T> = { record, parentKey, childKeys: [] };
+      index.set(key, node);
+      node.childKeys = visit(children.get(record) ?? [], key);
+      return key;
+    });
+  visit(roots, null);
+  return index;
+}
+
+/** Keys of every row in the forest, expanded or not, each parent before its children */
+export function getForestKeys<T>(
+  { roots, children }: Forest<T>,
+  getKey: (record: T, index: number) => RowKey
+): RowKey[] {
+  const keys: RowKey[] = [];
+  const visit = (level: T[]) =>
+    level.forEach((record, index) => {
+      keys.push(getKey(record, index));
+      visit(children.get(record) ?? []);
+    });
+  visit(roots);
+  return keys;
+}
+
+/** Keys of all rows below `key` */
+export function getDescendantKeys<T>(index: Map<RowKey, TreeNode<T>>, key: RowKey): RowKey[] {
+  const childKeys = index.get(key)?.childKeys ?? [];
+  return childKeys.flatMap(child => [child, ...getDescendantKeys(index, child)]);
+}
+
+/**
+ * Selects or deselects a row together with all of its descendants, then
+ * updates its ancestors: a parent is selected exactly when all of its
+ * children are.
+ */
+export function toggleTreeSelection<T>(
+  index: Map<RowKey, TreeNode<T>>,
+  selected: RowKey[],
+  key: RowKey,
+  checked: boolean
+): RowKey[] {
+  const next = new Set(selected);
+  [key, ...getDescendantKeys(index, key)].forEach(k => (checked ? next.add(k) : next.delete(k)));
+
+  for (let parent = index.get(key)?.parentKey; parent != null; parent = index.get(parent)?.parentKey) {
+    const childKeys = index.get(parent)?.childKeys ?? [];
+    if (childKeys.every(child => next.has(child))) next.add(parent);
+    else next.delete(parent);
+  }
+  return Array.from(next);
+}
+
+/** Unselected rows with at least one selected descendant, shown as indeterminate */
+export function getPartiallySelected<T>(index: Map<RowKey, TreeNode<T>>, selected: Set<RowKey>): Set<RowKey> {
+  const partial = new Set<RowKey>();
+  selected.forEach(key => {
+    for (let parent = index.get(key)?.parentKey; parent != null; parent = index.get(parent)?.parentKey) {
+      if (selected.has(parent) || partial.has(parent)) break;
+      partial.add(parent);
+    }
+  });
+  return partial;
+}
@@ -0,0 +1,28 @@
+// src/components/DataTable/useControllableState.ts
+import { useCallback, useState } from 'react';
+
+/**
+ * useControllableState
+ * - Controlled when `value` is defined, uncontrolled (internal state) otherwise
+ * - `onChange` fires for every change in both modes
+ */
+export function useControllableState<S>(
+  value: S | undefined,
+  defaultValue: S,
+  onChange?: (value: S) => void
+): [S, (next: S) => void] {
+  const [internalValue, setInternalValue] = useState<S>(defaultValue);
+  const isControlled = value !== undefined;
+  const current = isControlled ? value : internalValue;
+
+  const setValue = useCallback(
+    (next: S) => {
+      if (Object.is(next, current)) return;
+      if (!isControlled) setInternalValue(next);
+      onChange?.(next);
+    },
+    [current, isControlled, onChange]
+  );
+
+  return [current, setValue];
+}
@@ -0,0 +1,91 @@
+// src/components/DataTable/usePopover.ts
+import React, { useCallback, useEffect, useId, useRef, useState } from 'react';
+import { createPortal } from 'react-dom';
+
+export interface PopoverOptions {
+  /** Edge of the button the panel lines up with */
+  align?: 'start' | 'end';
+  /** Called before the panel opens */
+  onOpen?: () => void;
+}
+
+export interface Popover {
+  open: boolean;
+  buttonRef: React.RefObject<HTMLButtonElement | null>;
+  panelRef: React.RefObject<HTMLDivElement | null>;
+  panelId: string;
+  /** Fixed position of the panel below the button */
+  position: React.CSSProperties;
+  toggle: () => void;
+  /** Closes the panel and moves focus back to the button */
+  close: () => void;
+  /** Closes the panel on Escape */
+  handleKeyDown: (e: React.KeyboardEvent) => void;
+  /** Portals the panel into the document body while open */
+  renderPanel: (panel: React.ReactNode) => React.ReactNode;
+}
+
+/**
+ * usePopover
+ * - Open state and positioning for a panel anchored to a toolbar or header button
+ * - The panel follows the button while open, through scrolling and resizing
+ * - Escape or an outside click closes the panel
+ */
+export function usePopover({ align = 'start', onOpen }: PopoverOptions = {}): Popover {
+  const [open, setOpen] = useState(false);
+  const [position, setPosition] = useState<React.CSSProperties>({ top: 0 });
+  const buttonRef = useRef<HTMLButtonElement>(null);
+  const panelRef = useRef<HTMLDivElement>(null);
+  const panelId = useId();
+
+  const updatePosition = useCallback(() => {
+    const rect = buttonRef.current?.getBoundingClientRect();
+    if (!rect) return;
+    setPosition(
+      align === 'start'
+        ? { top: rect.bottom + 4, left: rect.left }
+        : { top: rect.bottom + 4, right: window.innerWidth - rect.right }
+    );
+  }, [align]);
+
+  useEffect(() => {
+    if (!open) return;
+    const handleMouseDown = (e: MouseEvent) => {
+      const target = e.target as Node;
+      if (panelRef.current?.contains(target) || buttonRef.current?.contains(target)) return;
+      setOpen(false);
+    };
+    document.addEventListener('mousedown', handleMouseDown);
+    // Capture catches scrolling in any ancestor of the button, not just the window
+    window.addEventListener('scroll', updatePosition, true);
+    window.addEventListener('resize', updatePosition);
+    return () => {
+      document.removeEventListener('mousedown', handleMouseDown);
+      window.removeEventListener('scroll', updatePosition, true);
+      window.removeEventListener('resize', updatePosition);
+    };
+  }, [open, updatePosition]);
+
+  const toggle = () => {
+    if (!open) {
+      updatePosition();
+      onOpen?.();
+    }
+    setOpen(!open);
+  };
+
+  const close = () => {
+    setOpen(false);
+    buttonRef.current?.focus();
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key !== 'Escape') return;
+    e.preventDefault();
+    close();
+  };
+
+  const renderPanel = (panel: React.ReactNode) => (open ? createPortal(panel, document.body) : null);
+
+  return { open, buttonRef, panelRef, panelId, position, toggle, close, handleKeyDown, renderPanel };
+}
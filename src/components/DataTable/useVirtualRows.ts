@@ -0,0 +1,130 @@
+// src/components/DataTable/useVirtualRows.ts
+import React, { useLayoutEffect, useRef, useState } from 'react';
+import type { RowKey } from './DataTable';
+
+export interface VirtualRowsOptions {
+  enabled: boolean;
+  /** Keys of all rows, in render order; measured heights are stored per key */
+  keys: RowKey[];
+  /** Height used for rows that have not been measured yet */
+  estimateHeight: number;
+  viewportHeight: number;
+  /** Extra rows rendered above and below the visible window */
+  overscan: number;
+  /** Changes whenever rendered rows may change height, e.g. when detail rows open */
+  contentVersion?: unknown;
+}
+
+export interface VirtualRows {
+  /** Index of the first rendered row (inclusive) */
+  start: number;
+  /** Index after the last rendered row (exclusive) */
+  end: number;
+  paddingTop: number;
+  paddingBottom: number;
+  onScroll: (e: React.UIEvent<HTMLElement>) => void;
+  /** Ref callback for the rendered row at `index`, used to measure its height */
+  measureRow: (index: number) => (el: HTMLTableRowElement | null) => void;
+  /** Scrolls `viewport` just far enough for the row at `index` to be rendered and visible */
+  scrollToIndex: (index: number, viewport: HTMLElement | null) => void;
+}
+
+// First index whose offset is greater than `value`, minus one
+function findRow(offsets: number[], value: number): number {
+  let low = 0;
+  let high = offsets.length - 1;
+  while (low < high) {
+    const mid = (low + high + 1) >> 1;
+    if (offsets[mid] <= value) low = mid;
+    else high = mid - 1;
+  }
+  return low;
+}
+
+/**
+ * useVirtualRows
+ * - Windowed rendering: only rows inside the viewport (plus overscan) render
+ * - Rows start at `estimateHeight` and are measured after they mount, so
+ *   variable row heights settle as the user scrolls
+ * - Spacer heights above/below keep the scrollbar size accurate
+ */
+export function useVirtualRows({
+  enabled,
+  keys,
+  estimateHeight,
+  viewportHeight,
+  overscan,
+  contentVersion,
+}: VirtualRowsOptions): VirtualRows {
+  const [scrollTop, setScrollTop] = useState(0);
+  const [, setMeasureVersion] = useState(0);
+  const heights = useRef(new Map<RowKey, number>());
+  const rowElements = useRef(new Map<number, HTMLTableRowElement>());
+
+  const count = keys.length;
+  let start = 0;
+  let end = count;
+  let paddingTop = 0;
+  let paddingBottom = 0;
+  let offsets: number[] = [];
+
+  if (enabled) {
+    offsets = new Array<number>(count + 1);
+    offsets[0] = 0;
+    for (let i = 0; i < count; i++) {
+      offsets[i + 1] = offsets[i] + (heights.current.get(keys[i]) ?? estimateHeight);
+    }
+
+    const firstVisible = Math.min(findRow(offsets, scrollTop), Math.max(0, count - 1));
+    const lastVisible = findRow(offsets, scrollTop + viewportHeight);
+    start = Math.max(0, firstVisible - overscan);
+    end = Math.min(count, lastVisible + 1 + overscan);
+    paddingTop = offsets[start];
+    paddingBottom = offsets[count] - offsets[end];
+  }
+
+  // Measure rendered rows whenever the window or their content changes; re-render only when a height changed
+  useLayoutEffect(() => {
+    if (!enabled) return;
+    let changed = false;
+    rowElements.current.forEach((el, index) => {
+      let height = el.getBoundingClientRect().height;
+      // Detail rows rendered directly beneath a row count towards its height
+      let next = el.nextElementSibling;
+      while (next instanceof HTMLElement && 'detailRow' in next.dataset) {
+        height += next.getBoundingClientRect().height;
+        next = next.nextElementSibling;
+      }
+      const key = keys[index];
+      if (height > 0 && key !== undefined && heights.current.get(key) !== height) {
+        heights.current.set(key, height);
+        changed = true;
+      }
+    });
+    if (changed) setMeasureVersion(version => version + 1);
+  }, [enabled, keys, start, end, contentVersion]);
+
+  return {
+    start,
+    end,
+    paddingTop,
+    paddingBottom,
+    onScroll: (e) => {
+      if (enabled) setScrollTop(e.currentTarget.scrollTop);
+    },
+    measureRow: (index) => (el) => {
+      if (!enabled) return;
+      if (el) rowElements.current.set(index, el);
+      else rowElements.current.delete(index);
+    },
+    scrollToIndex: (index, viewport) => {
+      if (!enabled || !viewport || index < 0 || index >= count) return;
+      let next = scrollTop;
+      if (offsets[index] < scrollTop) next = offsets[index];
+      else if (offsets[index + 1] > scrollTop + viewportHeight) next = offsets[index + 1] - viewportHeight;
+      if (next === scrollTop) return;
+      viewport.scrollTop = next;
+      setScrollTop(next);
+    },
+  };
+}
@@ -0,0 +1,48 @@
+// src/components/DataTable/xlsx.test.ts
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { createExportSheet } from './exporting';
+import { sheetToXlsx } from './xlsx';
+
+describe('sheetToXlsx', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it('writes typed cells and column widths to a stored XLSX archive', () => {
+    const sheet = createExportSheet(
+      [{ name: 'Alice & <Co>', email: 'alice@example.com', age: 28, active: true }],
+      [
+        { key: 'name', title: 'Name', dataIndex: 'name', width: 140 },
+        { key: 'age', title: 'Age', dataIndex: 'age', width: '20%' },
+        { key: 'active', title: 'Active', dataIndex: 'active' },
+        { key: 'joined', title: 'Joined', dataIndex: 'email', exportValue: () => new Date(2024, 0, 2) },
+      ]
+    );
+    const text = new TextDecoder().decode(sheetToXlsx(sheet, 'Team'));
+
+    expect(text.startsWith('PK\u0003\u0004')).toBe(true);
+    expect(text).toContain('<sheet name="Team" sheetId="1" r:id="rId1"/>');
+    expect(text).toContain('<cols><col min="1" max="1" width="20" customWidth="1"/></cols>');
+    expect(text).toContain('<c r="A1" s="1" t="inlineStr"><is><t xml:space="preserve">Name</t></is></c>');
+    expect(text).toContain('<t xml:space="preserve">Alice &amp; &lt;Co&gt;</t>');
+    expect(text).toContain('<c r="B2" s="0"><v>28</v></c>');
+    expect(text).toContain('<c r="C2" s="0" t="b"><v>1</v></c>');
+    // 2024-01-02 is day 45293 counted from Excel's epoch
+    expect(text).toContain('<c r="D2" s="2"><v>45293</v></c>');
+  });
+
+  it('writes dates in the local time they were built in, west of UTC', () => {
+    vi.stubEnv('TZ', 'America/Los_Angeles');
+    const sheet = createExportSheet(
+      [{ joined: '2024-01-02', lastSeen: new Date(2024, 0, 2, 18) }],
+      [
+        { key: 'joined', title: 'Joined', dataIndex: 'joined', sortType: 'date' },
+        { key: 'lastSeen', title: 'Last seen', dataIndex: 'lastSeen' },
+      ]
+    );
+    const text = new TextDecoder().decode(sheetToXlsx(sheet));
+
+    expect(text).toContain('<c r="A2" s="2"><v>45293</v></c>');
+    expect(text).toContain('<c r="B2" s="4"><v>45293.75</v></c>');
+  });
+});
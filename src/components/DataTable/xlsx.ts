@@ -0,0 +1,151 @@
+// src/components/DataTable/xlsx.ts
+import type { ExportSheet, ExportValue } from './exporting';
+import { createZip } from './zip';
+
+const XML_HEADER = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n';
+const MAIN_NS = 'http://schemas.openxmlformats.org/spreadsheetml/2006/main';
+const REL_NS = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships';
+const PACKAGE_REL_NS = 'http://schemas.openxmlformats.org/package/2006/relationships';
+
+// Cell formats as [fontId, numFmtId]: regular and bold, each as general, date and date-time
+const CELL_FORMATS: Array<[number, number]> = [
+  [0, 0],
+  [1, 0],
+  [0, 14],
+  [1, 14],
+  [0, 22],
+  [1, 22],
+];
+
+// Days between Excel's epoch (1899-12-30) and the Unix epoch
+const EXCEL_EPOCH_OFFSET = 25569;
+const MS_PER_DAY = 86400000;
+// Excel measures widths in characters of the default font, about 7px each
+const PX_PER_CHAR = 7;
+
+// Drops characters XML 1.0 does not allow, then escapes markup
+function escapeXml(text: string): string {
+  return text
+    .replace(/[^\t\n\r\u0020-\uFFFD]/g, '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+/** Column letters of a zero-based index: A, B, …, Z, AA, AB, … */
+function columnName(index: number): string {
+  let name = '';
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    name = String.fromCharCode(65 + ((n - 1) % 26)) + name;
+  }
+  return name;
+}
+
+// Excel serials have no time zone: they count days in the local time the date was built in
+function toSerial(date: Date): number {
+  const day = Date.UTC(date.getFullYear(), date.getMonth(), date.getDate()) / MS_PER_DAY;
+  const time = ((date.getHours() * 60 + date.getMinutes()) * 60 + date.getSeconds()) * 1000 + date.getMilliseconds();
+  return day + EXCEL_EPOCH_OFFSET + time / MS_PER_DAY;
+}
+
+function renderCell(value: ExportValue, ref: string, bold: boolean): string {
+  const boldOffset = bold ? 1 : 0;
+  if (value == null || value === '') return bold ? `<c r="${ref}" s="${boldOffset}"/>` : '';
+  if (typeof value === 'number') return `<c r="${ref}" s="${boldOffset}"><v>${value}</v></c>`;
+  if (typeof value === 'boolean') return `<c r="${ref}" s="${boldOffset}" t="b"><v>${value ? 1 : 0}</v></c>`;
+  if (value instanceof Date) {
+    if (Number.isNaN(value.getTime())) return '';
+    const serial = toSerial(value);
+    const style = (Number.isInteger(serial) ? 2 : 4) + boldOffset;
+    return `<c r="${ref}" s="${style}"><v>${serial}</v></c>`;
+  }
+  return `<c r="${ref}" s="${boldOffset}" t="inlineStr"><is><t xml:space="preserve">${escapeXml(value)}</t></is></c>`;
+}
+
+function renderRow(values: ExportValue[], rowNumber: number, bold: boolean): string {
+  const cells = values.map((value, index) => renderCell(value, `${columnName(index)}${rowNumber}`, bold)).join('');
+  return `<row r="${rowNumber}">${cells}</row>`;
+}
+
+function renderWorksheet(sheet: ExportSheet): string {
+  const cols = sheet.columns
+    .map((column, index) =>
+      column.width === undefined
+        ? ''
+        : `<col min="${index + 1}" max="${index + 1}" width="${Math.max(1, Math.round(column.width / PX_PER_CHAR))}" customWidth="1"/>`
+    )
+    .join('');
+  const rows = [
+    renderRow(sheet.columns.map(column => column.title), 1, true),
+    ...sheet.rows.map((row, index) => renderRow(row.values, index + 2, row.type !== 'data')),
+  ];
+  return (
+    `${XML_HEADER}<worksheet xmlns="${MAIN_NS}">` +
+    '<sheetViews><sheetView workbookViewId="0"><pane ySplit="1" topLeftCell="A2" activePane="bottomLeft" state="frozen"/></sheetView></sheetViews>' +
+    (cols ? `<cols>${cols}</cols>` : '') +
+    `<sheetData>${rows.join('')}</sheetData></worksheet>`
+  );
+}
+
+const STYLES =
+  `${XML_HEADER}<styleSheet xmlns="${MAIN_NS}">` +
+  '<fonts count="2"><font><sz val="11"/><name val="Calibri"/></font><font><b/><sz val="11"/><name val="Calibri"/></font></fonts>' +
+  '<fills count="2"><fill><patternFill patternType="none"/></fill><fill><patternFill patternType="gray125"/></fill></fills>' +
+  '<borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders>' +
+  '<cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs>' +
+  `<cellXfs count="${CELL_FORMATS.length}">` +
+  CELL_FORMATS.map(
+    ([fontId, numFmtId]) =>
+      `<xf numFmtId="${numFmtId}" fontId="${fontId}" fillId="0" borderId="0" xfId="0"` +
+      `${fontId ? ' applyFont="1"' : ''}${numFmtId ? ' applyNumberFormat="1"' : ''}/>`
+  ).join('') +
+  '</cellXfs></styleSheet>';
+
+const CONTENT_TYPES =
+  `${XML_HEADER}<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">` +
+  '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>' +
+  '<Default Extension="xml" ContentType="application/xml"/>' +
+  '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>' +
+  '<Override PartName="/xl/worksheets/sheet1.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>' +
+  '<Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/>' +
+  '</Types>';
+
+const ROOT_RELS =
+  `${XML_HEADER}<Relationships xmlns="${PACKAGE_REL_NS}">` +
+  `<Relationship Id="rId1" Type="${REL_NS}/officeDocument" Target="xl/workbook.xml"/>` +
+  '</Relationships>';
+
+const WORKBOOK_RELS =
+  `${XML_HEADER}<Relationships xmlns="${PACKAGE_REL_NS}">` +
+  `<Relationship Id="rId1" Type="${REL_NS}/worksheet" Target="worksheets/sheet1.xml"/>` +
+  `<Relationship Id="rId2" Type="${REL_NS}/styles" Target="styles.xml"/>` +
+  '</Relationships>';
+
+// Excel rejects names over 31 characters or containing []:*?/\
+function toSheetName(name: string): string {
+  return name.replace(/[[\]:*?/\\]/g, ' ').trim().slice(0, 31) || 'Sheet1';
+}
+
+/**
+ * Writes a sheet as an XLSX workbook with a single worksheet. The header row
+ * is frozen; header, group and summary rows are bold. Numbers, booleans and
+ * dates keep their types.
+ */
+export function sheetToXlsx(sheet: ExportSheet, sheetName = 'Sheet1'): Uint8Array<ArrayBuffer> {
+  const workbook =
+    `${XML_HEADER}<workbook xmlns="${MAIN_NS}" xmlns:r="${REL_NS}">` +
+    `<sheets><sheet name="${escapeXml(toSheetName(sheetName))}" sheetId="1" r:id="rId1"/></sheets></workbook>`;
+
+  const encoder = new TextEncoder();
+  return createZip(
+    [
+      ['[Content_Types].xml', CONTENT_TYPES],
+      ['_rels/.rels', ROOT_RELS],
+      ['xl/workbook.xml', workbook],
+      ['xl/_rels/workbook.xml.rels', WORKBOOK_RELS],
+      ['xl/styles.xml', STYLES],
+      ['xl/worksheets/sheet1.xml', renderWorksheet(sheet)],
+    ].map(([name, xml]) => ({ name, data: encoder.encode(xml) }))
+  );
+}
@@ -0,0 +1,25 @@
+// src/components/DataTable/zip.test.ts
+import { describe, it, expect } from 'vitest';
+import { crc32, createZip } from './zip';
+
+describe('zip', () => {
+  it('computes the CRC-32 used by ZIP entries', () => {
+    expect(crc32(new TextEncoder().encode('The quick brown fox jumps over the lazy dog'))).toBe(0x414fa339);
+  });
+
+  it('ends the archive with a record pointing at the central directory', () => {
+    const encoder = new TextEncoder();
+    const bytes = createZip([
+      { name: 'a.txt', data: encoder.encode('first') },
+      { name: 'dir/b.txt', data: encoder.encode('second') },
+    ]);
+
+    expect(new TextDecoder().decode(bytes.slice(0, 4))).toBe('PK\u0003\u0004');
+    // The central directory ends where the end-of-archive record starts
+    const view = new DataView(bytes.buffer);
+    const end = bytes.length - 22;
+    expect(view.getUint32(end)).toBe(0x504b0506);
+    expect(view.getUint16(end + 10, true)).toBe(2);
+    expect(view.getUint32(end + 12, true) + view.getUint32(end + 16, true)).toBe(end);
+  });
+});
@@ -0,0 +1,112 @@
+// src/components/DataTable/zip.ts
+
+export interface ZipEntry {
+  /** Path inside the archive, with forward slashes */
+  name: string;
+  data: Uint8Array;
+}
+
+let crcTable: Uint32Array | null = null;
+
+// Lookup table of the reflected CRC-32 polynomial used by ZIP
+function getCrcTable(): Uint32Array {
+  if (crcTable) return crcTable;
+  crcTable = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    crcTable[n] = c >>> 0;
+  }
+  return crcTable;
+}
+
+export function crc32(data: Uint8Array): number {
+  const table = getCrcTable();
+  let crc = 0xffffffff;
+  for (let i = 0; i < data.length; i++) crc = table[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+// 1980-01-01 00:00, the earliest DOS timestamp; keeps archives byte-identical between runs
+const DOS_TIME = 0;
+const DOS_DATE = (1 << 5) | 1;
+// Bit 11: file names are UTF-8
+const UTF8_FLAG = 0x0800;
+
+/**
+ * Writes a ZIP archive with every entry stored uncompressed. Enough for
+ * generated documents such as XLSX, which only need a valid container.
+ */
+export function createZip(entries: ZipEntry[]): Uint8Array<ArrayBuffer> {
+  const encoder = new TextEncoder();
+  const files = entries.map(entry => ({ ...entry, path: encoder.encode(entry.name), crc: crc32(entry.data) }));
+
+  const localSize = files.reduce((size, file) => size + 30 + file.path.length + file.data.length, 0);
+  const centralSize = files.reduce((size, file) => size + 46 + file.path.length, 0);
+  const bytes = new Uint8Array(localSize + centralSize + 22);
+  const view = new DataView(bytes.buffer);
+  let offset = 0;
+  const u16 = (value: number) => {
+    view.setUint16(offset, value, true);
+    offset += 2;
+  };
+  const u32 = (value: number) => {
+    view.setUint32(offset, value, true);
+    offset += 4;
+  };
+  const write = (data: Uint8Array) => {
+    bytes.set(data, offset);
+    offset += data.length;
+  };
+
+  const localOffsets = files.map(file => {
+    const start = offset;
+    u32(0x04034b50);
+    u16(20);
+    u16(UTF8_FLAG);
+    u16(0);
+    u16(DOS_TIME);
+    u16(DOS_DATE);
+    u32(file.crc);
+    u32(file.data.length);
+    u32(file.data.length);
+    u16(file.path.length);
+    u16(0);
+    write(file.path);
+    write(file.data);
+    return start;
+  });
+
+  const centralStart = offset;
+  files.forEach((file, index) => {
+    u32(0x02014b50);
+    u16(20);
+    u16(20);
+    u16(UTF8_FLAG);
+    u16(0);
+    u16(DOS_TIME);
+    u16(DOS_DATE);
+    u32(file.crc);
+    u32(file.data.length);
+    u32(file.data.length);
+    u16(file.path.length);
+    u16(0);
+    u16(0);
+    u16(0);
+    u16(0);
+    u32(0);
+    u32(localOffsets[index]);
+    write(file.path);
+  });
+
+  const centralEnd = offset;
+  u32(0x06054b50);
+  u16(0);
+  u16(0);
+  u16(files.length);
+  u16(files.length);
+  u32(centralEnd - centralStart);
+  u32(centralStart);
+  u16(0);
+  return bytes;
+}
@@ -0,0 +1,50 @@
+// src/users.ts
+
+export type User = {
+  id: number;
+  name: string;
+  email: string;
+  age: number;
+  department: string;
+  active: boolean;
+  avatar?: string;
+  joinDate: string;
+  salary: number;
+};
+
+export const departments = ['Engineering', 'Marketing', 'Design', 'Sales', 'HR', 'Finance', 'Operations'];
+
+// Field rules shared by the add-user form and inline table edits
+export const validateName = (name: string) => (!name.trim() ? 'Name is required' : undefined);
+export const validateEmail = (email: string) =>
+  !email.trim() ? 'Email is required' : !/\S+@\S+\.\S+/.test(email) ? 'Invalid email format' : undefined;
+export const validateAge = (age: string) =>
+  !age ? 'Age is required'
+  : isNaN(Number(age)) || Number(age) < 18 || Number(age) > 100 ? 'Age must be between 18 and 100'
+  : undefined;
+export const validateSalary = (salary: string) =>
+  !salary ? 'Salary is required'
+  : isNaN(Number(salary)) || Number(salary) < 0 ? 'Salary must be a positive number'
+  : undefined;
+const validateDepartment = (department: string) =>
+  !department ? 'Department is required' : !departments.includes(department) ? 'Unknown department' : undefined;
+
+export type UserFields = Pick<Record<keyof User, string>, 'name' | 'email' | 'age' | 'department' | 'salary'>;
+
+const fieldValidators: Record<keyof UserFields, (value: string) => string | undefined> = {
+  name: validateName,
+  email: validateEmail,
+  age: validateAge,
+  department: validateDepartment,
+  salary: validateSalary,
+};
+
+// Errors of the add-user form fields; imported rows go through the same rules
+export const validateUserFields = (fields: UserFields) => {
+  const fieldErrors: Partial<Record<keyof UserFields, string>> = {};
+  (Object.keys(fieldValidators) as Array<keyof UserFields>).forEach(field => {
+    const error = fieldValidators[field](fields[field]);
+    if (error) fieldErrors[field] = error;
+  });
+  return fieldErrors;
+};